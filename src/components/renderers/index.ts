@@ -0,0 +1,28 @@
+import type { Component } from 'vue'
+import { resolveMediaKind } from '../../utils/mediaTypes'
+import type { Wallpaper } from '../../composables/useWallpaper'
+import VideoRenderer from './VideoRenderer.vue'
+import ImageRenderer from './ImageRenderer.vue'
+import ParticleRenderer from './ParticleRenderer.vue'
+import CompositionRenderer from './CompositionRenderer.vue'
+import DynamicRenderer from './DynamicRenderer.vue'
+
+// Renderer component for each media kind registered in utils/mediaTypes.
+// New kinds only need registerMediaKind + registerRenderer.
+const renderers = new Map<string, Component>([
+    ['video', VideoRenderer],
+    ['image', ImageRenderer],
+    ['particles', ParticleRenderer],
+    ['composition', CompositionRenderer],
+    ['dynamic', DynamicRenderer]
+])
+
+export const registerRenderer = (kind: string, component: Component) => {
+    renderers.set(kind, component)
+}
+
+// Renderer for a wallpaper, falling back to a plain image
+export const resolveRenderer = (wallpaper: Wallpaper): Component => {
+    const kind = resolveMediaKind(wallpaper)?.kind
+    return (kind && renderers.get(kind)) || ImageRenderer
+}
@@ -0,0 +1,71 @@
+import type { Component } from 'vue'
+import type { IWidgetSize } from '../../types/widgets'
+import ClockWidget from './ClockWidget.vue'
+import CalendarWidget from './CalendarWidget.vue'
+import CountdownWidget from './CountdownWidget.vue'
+import NotesWidget from './NotesWidget.vue'
+import NowPlayingWidget from './NowPlayingWidget.vue'
+
+export interface WidgetDefinition {
+    type: string
+    label: string
+    // Receives `settings` and `editing` props and may emit `update:settings`
+    component: Component
+    defaultSize: IWidgetSize
+    minSize: IWidgetSize
+    defaultSettings?: Record<string, unknown>
+}
+
+const widgets = new Map<string, WidgetDefinition>()
+
+// Register (or replace) a widget type
+export const registerWidget = (definition: WidgetDefinition) => {
+    widgets.set(definition.type, definition)
+}
+
+export const getWidgetDefinition = (type: string) => widgets.get(type) || null
+
+export const getWidgetDefinitions = () => [...widgets.values()]
+
+registerWidget({
+    type: 'clock',
+    label: 'Clock',
+    component: ClockWidget,
+    defaultSize: { width: 260, height: 110 },
+    minSize: { width: 140, height: 60 },
+    defaultSettings: { hour12: false, showSeconds: true }
+})
+
+registerWidget({
+    type: 'calendar',
+    label: 'Calendar',
+    component: CalendarWidget,
+    defaultSize: { width: 240, height: 250 },
+    minSize: { width: 200, height: 200 }
+})
+
+registerWidget({
+    type: 'countdown',
+    label: 'Countdown',
+    component: CountdownWidget,
+    defaultSize: { width: 260, height: 130 },
+    minSize: { width: 200, height: 100 },
+    defaultSettings: { label: '', target: '' }
+})
+
+registerWidget({
+    type: 'notes',
+    label: 'Sticky note',
+    component: NotesWidget,
+    defaultSize: { width: 220, height: 200 },
+    minSize: { width: 140, height: 100 },
+    defaultSettings: { text: '' }
+})
+
+registerWidget({
+    type: 'now-playing',
+    label: 'Now playing',
+    component: NowPlayingWidget,
+    defaultSize: { width: 280, height: 80 },
+    minSize: { width: 200, height: 70 }
+})
@@ -0,0 +1,125 @@
+import { ref, shallowRef, readonly, watch, onUnmounted } from 'vue'
+import type { Ref } from 'vue'
+import {
+    SILENT_LEVELS,
+    bandLevels,
+    createBeatDetector,
+    magnitudeSpectrum,
+    smoothLevels
+} from '../utils/beatDetector'
+import type { BandLevels } from '../utils/beatDetector'
+
+const FFT_SIZE = 2048
+
+// One audio graph for the whole page: a media element can only be routed once
+let context: AudioContext | null = null
+let analyser: AnalyserNode | null = null
+let connectedSource: MediaElementAudioSourceNode | null = null
+const sources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>()
+const registered = new WeakSet<HTMLMediaElement>()
+const playingElement = shallowRef<HTMLMediaElement | null>(null)
+
+// Make a music player's element available to the analyser.
+// Must run before the element loads a track so the request is made with CORS.
+export const registerAudioElement = (element: HTMLMediaElement) => {
+    if (registered.has(element)) return
+    registered.add(element)
+    element.crossOrigin = 'anonymous'
+
+    element.addEventListener('play', () => {
+        playingElement.value = element
+        context?.resume()
+    })
+    if (!element.paused) {
+        playingElement.value = element
+    }
+}
+
+const connect = (element: HTMLMediaElement) => {
+    if (!context) {
+        context = new AudioContext()
+        analyser = context.createAnalyser()
+        analyser.fftSize = FFT_SIZE
+    }
+
+    let source = sources.get(element)
+    if (!source) {
+        // Once routed through the graph the element is only audible via the destination
+        source = context.createMediaElementSource(element)
+        source.connect(context.destination)
+        sources.set(element, source)
+    }
+
+    if (connectedSource !== source) {
+        connectedSource?.disconnect(analyser!)
+        source.connect(analyser!)
+        connectedSource = source
+    }
+    context.resume()
+}
+
+export const useAudioAnalyser = (enabled: Ref<boolean>, beatSensitivity: Ref<number>) => {
+    const levels = shallowRef<BandLevels>(SILENT_LEVELS)
+    const beatCount = ref(0)
+    const isActive = ref(false)
+
+    const detector = createBeatDetector({ sensitivity: beatSensitivity.value })
+    const buffer = new Float32Array(FFT_SIZE)
+    let frameId: number | null = null
+
+    const loop = () => {
+        const element = playingElement.value
+        if (analyser && context && element && !element.paused) {
+            analyser.getFloatTimeDomainData(buffer)
+            const next = bandLevels(magnitudeSpectrum(buffer), context.sampleRate)
+            levels.value = smoothLevels(levels.value, next)
+            if (detector.process(next.bass, performance.now() / 1000)) {
+                beatCount.value++
+            }
+        } else {
+            levels.value = smoothLevels(levels.value, SILENT_LEVELS)
+        }
+        frameId = requestAnimationFrame(loop)
+    }
+
+    const stop = () => {
+        if (frameId !== null) {
+            cancelAnimationFrame(frameId)
+            frameId = null
+        }
+        isActive.value = false
+        levels.value = SILENT_LEVELS
+        detector.reset()
+    }
+
+    const start = (element: HTMLMediaElement) => {
+        try {
+            connect(element)
+        } catch (err) {
+            console.error('Failed to connect audio analyser:', err)
+            return
+        }
+        isActive.value = true
+        if (frameId === null) {
+            frameId = requestAnimationFrame(loop)
+        }
+    }
+
+    watch([enabled, playingElement], ([isEnabled, element]) => {
+        if (isEnabled && element) {
+            start(element)
+        } else {
+            stop()
+        }
+    }, { immediate: true })
+
+    watch(beatSensitivity, (value) => detector.setSensitivity(value))
+
+    onUnmounted(stop)
+
+    return {
+        levels: readonly(levels),
+        beatCount: readonly(beatCount),
+        isActive: readonly(isActive)
+    }
+}
@@ -0,0 +1,95 @@
+import { supabase } from './useSupabase'
+
+export type LikeTarget = 'wallpaper' | 'track'
+
+// Like rows, and the table whose like_count they feed
+const LIKE_TABLES: Record<LikeTarget, { table: string, column: string, counted: string }> = {
+    wallpaper: { table: 'wallpaper_likes', column: 'wallpaper_id', counted: 'wallpapers' },
+    track: { table: 'track_likes', column: 'track_id', counted: 'music_tracks' }
+}
+
+// Counter RPCs, see increment_wallpaper_views and increment_track_plays in supabase-schema.sql
+const COUNTER_RPCS: Record<LikeTarget, { name: string, param: string }> = {
+    wallpaper: { name: 'increment_wallpaper_views', param: 'view_counts' },
+    track: { name: 'increment_track_plays', param: 'play_counts' }
+}
+
+export const useEngagement = () => {
+    // Ids of everything the signed-in user has liked
+    const fetchLikedIds = async (target: LikeTarget) => {
+        const { table, column } = LIKE_TABLES[target]
+
+        try {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user) return { data: [] as string[], error: null }
+
+            const { data, error: fetchError } = await supabase
+                .from(table)
+                .select(column)
+                .eq('user_id', user.id)
+
+            if (fetchError) throw fetchError
+
+            const rows = (data || []) as unknown as Record<string, string>[]
+            return { data: rows.map(row => row[column]), error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch likes'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // Like or unlike, returning the item's like count afterwards
+    const setLiked = async (target: LikeTarget, id: string, liked: boolean) => {
+        const { table, column, counted } = LIKE_TABLES[target]
+
+        try {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user) throw new Error('User must be authenticated to like')
+
+            const { error: likeError } = liked
+                ? await supabase
+                    .from(table)
+                    .upsert({ user_id: user.id, [column]: id }, { ignoreDuplicates: true })
+                : await supabase
+                    .from(table)
+                    .delete()
+                    .eq('user_id', user.id)
+                    .eq(column, id)
+
+            if (likeError) throw likeError
+
+            // The like went through even if the fresh count can't be read
+            const { data } = await supabase
+                .from(counted)
+                .select('like_count')
+                .eq('id', id)
+                .single()
+
+            return { data: (data?.like_count as number | undefined) ?? null, error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to update like'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // Add batched views (wallpapers) or plays (tracks), keyed by id
+    const incrementCounts = async (target: LikeTarget, counts: Record<string, number>) => {
+        const { name, param } = COUNTER_RPCS[target]
+
+        try {
+            const { error: rpcError } = await supabase.rpc(name, { [param]: counts })
+            if (rpcError) throw rpcError
+
+            return { error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to record counts'
+            return { error: errorMessage }
+        }
+    }
+
+    return {
+        fetchLikedIds,
+        setLiked,
+        incrementCounts
+    }
+}
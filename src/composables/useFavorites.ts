@@ -0,0 +1,142 @@
+import { supabase } from './useSupabase'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { isUploadedWallpaperId } from '../utils/favorites'
+
+export interface FavoriteChange {
+    wallpaperId: string
+    favorite: boolean
+}
+
+export const useFavorites = () => {
+    let channel: RealtimeChannel | null = null
+    let reloadWhenVisible: (() => void) | null = null
+
+    // Wallpaper ids the signed-in user has favorited
+    const fetchFavoriteIds = async () => {
+        try {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user) throw new Error('User must be authenticated')
+
+            const { data, error: fetchError } = await supabase
+                .from('favorites')
+                .select('wallpaper_id')
+                .eq('user_id', user.id)
+                .order('created_at', { ascending: true })
+
+            if (fetchError) throw fetchError
+
+            return { data: (data || []).map(row => row.wallpaper_id as string), error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch favorites'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // Ids that are already favorites are left alone, and so are built-in or deleted wallpapers,
+    // which the table would reject along with the rest of the batch
+    const addFavorites = async (wallpaperIds: string[]) => {
+        try {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user) throw new Error('User must be authenticated')
+
+            const candidates = wallpaperIds.filter(isUploadedWallpaperId)
+            if (candidates.length === 0) return { error: null }
+
+            const { data: existing, error: fetchError } = await supabase
+                .from('wallpapers')
+                .select('id')
+                .in('id', candidates)
+
+            if (fetchError) throw fetchError
+            if (!existing || existing.length === 0) return { error: null }
+
+            const { error: insertError } = await supabase
+                .from('favorites')
+                .upsert(
+                    existing.map(row => ({ user_id: user.id, wallpaper_id: row.id as string })),
+                    { ignoreDuplicates: true }
+                )
+
+            if (insertError) throw insertError
+
+            return { error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to add favorite'
+            return { error: errorMessage }
+        }
+    }
+
+    const removeFavorite = async (wallpaperId: string) => {
+        try {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user) throw new Error('User must be authenticated')
+
+            const { error: deleteError } = await supabase
+                .from('favorites')
+                .delete()
+                .eq('user_id', user.id)
+                .eq('wallpaper_id', wallpaperId)
+
+            if (deleteError) throw deleteError
+
+            return { error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to remove favorite'
+            return { error: errorMessage }
+        }
+    }
+
+    // Follow favorites changed from other tabs and devices. Additions arrive filtered to the user;
+    // realtime can't filter deletes, and an unfiltered delete stream would tell every client who
+    // removed what, so removals are picked up by refetching when the page is shown again.
+    const subscribeToFavorites = (
+        userId: string,
+        onChange: (change: FavoriteChange) => void,
+        onReload: (wallpaperIds: string[]) => void
+    ) => {
+        unsubscribeFromFavorites()
+
+        const current = supabase
+            .channel(`favorites:${userId}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: 'INSERT',
+                    schema: 'public',
+                    table: 'favorites',
+                    filter: `user_id=eq.${userId}`
+                },
+                payload => onChange({ wallpaperId: payload.new.wallpaper_id, favorite: true })
+            )
+            .subscribe()
+        channel = current
+
+        reloadWhenVisible = async () => {
+            if (document.visibilityState !== 'visible') return
+            const result = await fetchFavoriteIds()
+            // Signed out or switched accounts while this was loading
+            if (channel !== current) return
+            if (result.data) onReload(result.data)
+        }
+        document.addEventListener('visibilitychange', reloadWhenVisible)
+    }
+
+    const unsubscribeFromFavorites = () => {
+        if (channel) {
+            supabase.removeChannel(channel)
+            channel = null
+        }
+        if (reloadWhenVisible) {
+            document.removeEventListener('visibilitychange', reloadWhenVisible)
+            reloadWhenVisible = null
+        }
+    }
+
+    return {
+        fetchFavoriteIds,
+        addFavorites,
+        removeFavorite,
+        subscribeToFavorites,
+        unsubscribeFromFavorites
+    }
+}
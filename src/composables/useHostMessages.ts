@@ -0,0 +1,46 @@
+import { onMounted, onUnmounted } from 'vue'
+import { parseHostCommand } from '../utils/liveParams'
+import type { HostCommand, LiveState } from '../utils/liveParams'
+
+// Listens for commands posted by the page hosting the live wallpaper (iframe parent or opener)
+export const useHostMessages = (
+    allowedOrigin: string | null,
+    onCommand: (command: HostCommand) => void | Promise<void>,
+    getState: () => LiveState
+) => {
+    // Pages opened from disk report an origin of "null", which can only be answered with "*"
+    const replyOrigin = (origin: string) => (origin === 'null' ? '*' : origin)
+
+    // Only the embedding page or the one that opened this window is a host, never another tab or frame
+    const isHost = (source: MessageEventSource | null) =>
+        !!source && ((window.parent !== window && source === window.parent) || source === window.opener)
+
+    const onMessage = async (event: MessageEvent) => {
+        if (!isHost(event.source)) return
+        if (allowedOrigin && event.origin !== allowedOrigin) return
+        const command = parseHostCommand(event.data)
+        if (!command) return
+
+        await onCommand(command)
+
+        // Every command is answered with the resulting state
+        const source = event.source as Window | null
+        source?.postMessage(getState(), { targetOrigin: replyOrigin(event.origin) })
+    }
+
+    // Tell an embedding page about changes it didn't ask for, like rotation
+    const notifyHost = () => {
+        if (window.parent === window) return
+        window.parent.postMessage(getState(), allowedOrigin || '*')
+    }
+
+    onMounted(() => {
+        window.addEventListener('message', onMessage)
+    })
+
+    onUnmounted(() => {
+        window.removeEventListener('message', onMessage)
+    })
+
+    return { notifyHost }
+}
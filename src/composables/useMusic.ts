@@ -1,12 +1,36 @@
 import { ref, readonly, onUnmounted, watch } from 'vue'
 import { supabase } from './useSupabase'
 import { ITrack } from '../types/music'
+import { registerAudioElement } from './useAudioAnalyser'
+import { offsetPage } from '../utils/pagination'
+import { normalizeSearchQuery } from '../utils/search'
+import { extractTrackCover } from '../utils/thumbnails'
+import { describeRejection, validateUpload } from '../utils/uploadValidation'
+import { storeResumable } from './useResumableUpload'
+
+// Cover art is optional, the track is saved without it when it can't be stored
+const storeTrackCover = async (userId: string, cover: File | null) => {
+    if (!cover) return null
+
+    const fileName = `${userId}/${Date.now()}-cover.${cover.name.split('.').pop()}`
+    const { error: uploadError } = await supabase.storage
+        .from('music')
+        .upload(fileName, cover, { contentType: cover.type })
+
+    if (uploadError) {
+        console.error('Failed to upload track cover:', uploadError)
+        return null
+    }
+
+    return supabase.storage.from('music').getPublicUrl(fileName).data.publicUrl
+}
 
 export interface MusicTrack {
     id: string
     title: string
     artist?: string
     file_url: string
+    thumbnail_url?: string | null
     duration?: number
     uploader_id: string
     created_at: string
@@ -35,6 +59,7 @@ export const useMusic = () => {
         if (!audioElement) {
             audioElement = new Audio()
             audioElement.volume = volume.value
+            registerAudioElement(audioElement)
 
             // Audio event listeners
             audioElement.addEventListener('loadedmetadata', () => {
@@ -110,26 +135,19 @@ export const useMusic = () => {
             const { data: { user } } = await supabase.auth.getUser()
             if (!user) throw new Error('User must be authenticated to upload')
 
-            // Validate file type
-            if (!file.type.startsWith('audio/')) {
-                throw new Error('File must be an audio file')
-            }
+            // Check the real type, size, length and that it plays before storing anything
+            const { data: media, error: rejection } = await validateUpload(file, 'music')
+            if (rejection) throw new Error(describeRejection(rejection, 'music'))
 
-            // Generate unique filename
-            const fileExt = file.name.split('.').pop()
-            const fileName = `${user.id}/${Date.now()}.${fileExt}`
+            const cover = await extractTrackCover(file)
 
-            // Upload file to Supabase Storage
-            const { error: uploadError } = await supabase.storage
-                .from('music')
-                .upload(fileName, file)
+            // Generate unique filename
+            const fileName = `${user.id}/${Date.now()}.${media.extension}`
 
-            if (uploadError) throw uploadError
+            // Upload file to Supabase Storage in resumable chunks
+            const publicUrl = await storeResumable('music', fileName, file, media.mimeType)
 
-            // Get public URL
-            const { data: { publicUrl } } = supabase.storage
-                .from('music')
-                .getPublicUrl(fileName)
+            const thumbnailUrl = await storeTrackCover(user.id, cover)
 
             // Save track metadata to database
             const { data: trackData, error: dbError } = await supabase
@@ -138,6 +156,7 @@ export const useMusic = () => {
                     title,
                     artist,
                     file_url: publicUrl,
+                    thumbnail_url: thumbnailUrl,
                     uploader_id: user.id
                 })
                 .select(`
@@ -244,6 +263,10 @@ export const useMusic = () => {
         }
     }
 
+    const setMuted = (muted: boolean) => {
+        initAudio().muted = muted
+    }
+
     // Delete track (only by uploader)
     const deleteTrack = async (trackId: string) => {
         loading.value = true
@@ -270,14 +293,15 @@ export const useMusic = () => {
                 currentTrack.value = null
             }
 
-            // Extract filename from URL
-            const urlParts = track.file_url.split('/')
-            const fileName = urlParts.slice(-2).join('/') // user_id/filename
+            // Extract filenames from URLs, the cover is stored next to the track
+            const fileUrls: string[] = [track.file_url]
+            if (track.thumbnail_url) fileUrls.push(track.thumbnail_url)
+            const fileNames = fileUrls.map(url => url.split('/').slice(-2).join('/')) // user_id/filename
 
             // Delete from storage
             const { error: storageError } = await supabase.storage
                 .from('music')
-                .remove([fileName])
+                .remove(fileNames)
 
             if (storageError) throw storageError
 
@@ -309,12 +333,32 @@ export const useMusic = () => {
     }
 
     // Search tracks
-    const searchTracks = (query: string) => {
-        const lowercaseQuery = query.toLowerCase()
-        return tracks.value.filter(track =>
-            track.title.toLowerCase().includes(lowercaseQuery) ||
-            track.artist?.toLowerCase().includes(lowercaseQuery)
-        )
+    // Ranked full-text search over title, artist and uploader name, see search_tracks in supabase-schema.sql
+    const searchTracks = async (query: string, options: { offset?: number, limit?: number } = {}) => {
+        const { offset = 0, limit = 30 } = options
+        const searchQuery = normalizeSearchQuery(query)
+
+        try {
+            if (!searchQuery) return { data: { items: [] as ITrack[], nextOffset: null }, error: null }
+
+            const { data, error: searchError } = await supabase
+                .rpc('search_tracks', {
+                    search_query: searchQuery,
+                    page_limit: limit + 1,
+                    page_offset: offset
+                })
+                .select(`
+          *,
+          uploader:users(username, avatar_url)
+        `)
+
+            if (searchError) throw searchError
+
+            return { data: offsetPage((data || []) as ITrack[], offset, limit), error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Search failed'
+            return { data: null, error: errorMessage }
+        }
     }
 
     // Watch volume changes to update audio element
@@ -354,6 +398,7 @@ export const useMusic = () => {
         setVolume,
         seekTo,
         toggleMute,
+        setMuted,
         deleteTrack,
         getTrackById,
         searchTracks
@@ -0,0 +1,19 @@
+import { ref, readonly, onMounted, onUnmounted } from 'vue'
+
+// Current time as a ref that ticks on an interval while the component is mounted
+export const useNow = (interval: number = 1000) => {
+    const now = ref(new Date())
+    let timer: ReturnType<typeof setInterval> | null = null
+
+    onMounted(() => {
+        timer = setInterval(() => {
+            now.value = new Date()
+        }, interval)
+    })
+
+    onUnmounted(() => {
+        if (timer) clearInterval(timer)
+    })
+
+    return readonly(now)
+}
@@ -0,0 +1,96 @@
+import { ref, onMounted, onUnmounted, watch } from 'vue'
+import type { Ref } from 'vue'
+import type { IParticleScene } from '../types/particles'
+import { createParticleEngine } from '../utils/particleEngine'
+import type { ParticleEngine } from '../utils/particleEngine'
+import { RUNNING, shouldRenderFrame } from '../utils/powerPolicy'
+import type { PlaybackDecision } from '../utils/powerPolicy'
+
+// Runs a particle engine on a canvas, sized to the canvas box and following the power policy
+export const useParticleCanvas = (
+    canvas: Ref<HTMLCanvasElement | undefined>,
+    playback: Ref<PlaybackDecision> = ref(RUNNING)
+) => {
+    let engine: ParticleEngine | null = null
+    let frameId: number | null = null
+    let lastFrame = 0
+    let observer: ResizeObserver | null = null
+
+    const size = () => ({
+        width: canvas.value?.clientWidth || window.innerWidth,
+        height: canvas.value?.clientHeight || window.innerHeight
+    })
+
+    const resize = () => {
+        if (!canvas.value) return
+        const { width, height } = size()
+        const dpr = window.devicePixelRatio || 1
+        canvas.value.width = width * dpr
+        canvas.value.height = height * dpr
+        canvas.value.getContext('2d')?.setTransform(dpr, 0, 0, dpr, 0, 0)
+        engine?.resize(width, height)
+    }
+
+    // Skipped frames are caught up by the fixed-step simulation on the next render
+    const loop = (timestamp: number) => {
+        const ctx = canvas.value?.getContext('2d')
+        if (engine && ctx && shouldRenderFrame(playback.value, lastFrame, timestamp)) {
+            engine.advance((timestamp - lastFrame) / 1000)
+            engine.render(ctx)
+            lastFrame = timestamp
+        }
+        frameId = requestAnimationFrame(loop)
+    }
+
+    const resume = () => {
+        if (frameId !== null || !engine || playback.value.state === 'paused') return
+        lastFrame = performance.now()
+        frameId = requestAnimationFrame(loop)
+    }
+
+    const pause = () => {
+        if (frameId !== null) {
+            cancelAnimationFrame(frameId)
+            frameId = null
+        }
+    }
+
+    const start = (scene: IParticleScene, seed?: number) => {
+        pause()
+        engine = createParticleEngine(scene, { ...size(), seed })
+        resize()
+        resume()
+        return engine
+    }
+
+    const stop = () => {
+        pause()
+        engine = null
+    }
+
+    // Stop the loop entirely while paused rather than idling through frames
+    watch(() => playback.value.state === 'paused', paused => (paused ? pause() : resume()))
+
+    onMounted(() => {
+        if (typeof ResizeObserver !== 'undefined' && canvas.value) {
+            observer = new ResizeObserver(resize)
+            observer.observe(canvas.value)
+        } else {
+            window.addEventListener('resize', resize)
+        }
+    })
+
+    onUnmounted(() => {
+        observer?.disconnect()
+        window.removeEventListener('resize', resize)
+        stop()
+    })
+
+    return {
+        start,
+        stop,
+        get engine() {
+            return engine
+        }
+    }
+}
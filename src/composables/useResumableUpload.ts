@@ -0,0 +1,70 @@
+import { ref, readonly } from 'vue'
+import { supabase, supabaseUrl } from './useSupabase'
+import { createTusUpload } from '../utils/tusUpload'
+import type { TusUpload, TusUploadStatus } from '../utils/tusUpload'
+
+export interface UploadTransfer {
+    id: string
+    name: string
+    status: TusUploadStatus
+    bytesUploaded: number
+    bytesTotal: number
+    speed: number // bytes per second
+    attempt: number // retries in a row, shown while reconnecting
+}
+
+const RESUMABLE_ENDPOINT = `${supabaseUrl}/storage/v1/upload/resumable`
+
+// Shared by every upload panel: transfers in flight, and the controls that steer them
+const transfers = ref<UploadTransfer[]>([])
+const controls = new Map<string, TusUpload>()
+let nextId = 0
+
+const updateTransfer = (id: string, patch: Partial<UploadTransfer>) => {
+    transfers.value = transfers.value.map(transfer => (transfer.id === id ? { ...transfer, ...patch } : transfer))
+}
+
+const removeTransfer = (id: string) => {
+    transfers.value = transfers.value.filter(transfer => transfer.id !== id)
+    controls.delete(id)
+}
+
+// Upload to Supabase Storage in resumable chunks and return the public URL.
+// Shows up in the transfer list until it finishes; throws when cancelled or out of retries.
+export const storeResumable = async (bucket: string, path: string, file: File, contentType: string) => {
+    const id = `upload-${++nextId}`
+    const upload = createTusUpload(file, {
+        endpoint: RESUMABLE_ENDPOINT,
+        metadata: { bucketName: bucket, objectName: path, contentType, cacheControl: '3600' },
+        headers: async () => {
+            const { data: { session } } = await supabase.auth.getSession()
+            if (!session) throw new Error('User must be authenticated to upload')
+            return { authorization: `Bearer ${session.access_token}`, 'x-upsert': 'false' }
+        },
+        onProgress: progress => updateTransfer(id, progress)
+    })
+
+    controls.set(id, upload)
+    transfers.value = [...transfers.value, { id, name: file.name, ...upload.progress() }]
+
+    try {
+        await upload.start()
+    } finally {
+        removeTransfer(id)
+    }
+
+    return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl
+}
+
+export const useResumableUpload = () => {
+    const pause = (id: string) => controls.get(id)?.pause()
+    const resume = (id: string) => controls.get(id)?.resume()
+    const cancel = (id: string) => controls.get(id)?.cancel()
+
+    return {
+        transfers: readonly(transfers),
+        pause,
+        resume,
+        cancel
+    }
+}
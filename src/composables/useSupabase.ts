@@ -1,7 +1,7 @@
 import { createClient, SupabaseClient, User, Session } from '@supabase/supabase-js'
 import { ref, computed, readonly } from 'vue'
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string
 
 export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey)
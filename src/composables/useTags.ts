@@ -0,0 +1,77 @@
+import { supabase } from './useSupabase'
+import type { ITagCount, TagAliases } from '../types/tags'
+
+// Tag taxonomy, see the tags section of supabase-schema.sql
+export const useTags = () => {
+    const fetchTagCounts = async () => {
+        try {
+            const { data, error: fetchError } = await supabase.rpc('tag_counts')
+            if (fetchError) throw fetchError
+
+            return { data: (data || []) as ITagCount[], error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch tags'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    const fetchAliases = async () => {
+        try {
+            const { data, error: fetchError } = await supabase
+                .from('tag_aliases')
+                .select('alias, tag_slug')
+
+            if (fetchError) throw fetchError
+
+            const aliases: TagAliases = {}
+            for (const row of data || []) aliases[row.alias] = row.tag_slug
+            return { data: aliases, error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch tag aliases'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    const fetchIsAdmin = async () => {
+        try {
+            const { data, error: fetchError } = await supabase.rpc('is_admin')
+            if (fetchError) throw fetchError
+
+            return { data: data === true, error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to check admin access'
+            return { data: false, error: errorMessage }
+        }
+    }
+
+    // Admin RPCs share one shape: call, surface the error message
+    const callAdmin = async (name: string, params: Record<string, unknown>, fallback: string) => {
+        try {
+            const { error: rpcError } = await supabase.rpc(name, params)
+            if (rpcError) throw rpcError
+
+            return { error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : fallback
+            return { error: errorMessage }
+        }
+    }
+
+    const mergeTags = (sourceSlugs: string[], targetSlug: string) =>
+        callAdmin('merge_tags', { source_slugs: sourceSlugs, target_slug: targetSlug }, 'Failed to merge tags')
+
+    const renameTag = (slug: string, label: string) =>
+        callAdmin('rename_tag', { old_slug: slug, new_label: label }, 'Failed to rename tag')
+
+    const setTagHidden = (slug: string, hidden: boolean) =>
+        callAdmin('set_tag_hidden', { tag_slug: slug, is_hidden: hidden }, 'Failed to update tag')
+
+    return {
+        fetchTagCounts,
+        fetchAliases,
+        fetchIsAdmin,
+        mergeTags,
+        renameTag,
+        setTagHidden
+    }
+}
@@ -1,13 +1,57 @@
 import { ref, readonly } from 'vue'
 import { supabase } from './useSupabase'
+import { getExtension, resolveMediaKind } from '../utils/mediaTypes'
+import type { DisplaySettingsPatch } from '../types/display'
+import type { IComposition } from '../types/composition'
+import { COMPOSITION_MIME_TYPE, withMediaSource } from '../utils/composition'
+import type { IDynamicSet } from '../types/dynamic'
+import { DYNAMIC_MIME_TYPE, withFrameSources } from '../utils/dynamicWallpaper'
+import { probeVideo, probeVideoFile } from '../utils/renditions'
+import type { IPalette } from '../types/palette'
+import { sampleFilePalette } from '../utils/palette'
+import { cursorFilter, cursorOf, escapeLike, offsetPage } from '../utils/pagination'
+import { normalizeSearchQuery } from '../utils/search'
+import type { PageCursor } from '../utils/pagination'
+import { fingerprintFile } from '../utils/perceptualHash'
+import { generateWallpaperThumbnails } from '../utils/thumbnails'
+import type { WallpaperThumbnails } from '../utils/thumbnails'
+import { rankDuplicates } from '../utils/duplicates'
+import type { DuplicatePair } from '../utils/duplicates'
+import { describeRejection, uploadExtension, validateUpload } from '../utils/uploadValidation'
+import { storeResumable } from './useResumableUpload'
+
+export interface WallpaperRendition {
+    id: string
+    wallpaper_id: string
+    file_url: string
+    mime_type: string | null
+    codecs?: string | null
+    width: number | null
+    height: number | null
+    bitrate?: number | null // kbit/s
+    is_original: boolean
+}
 
 export interface Wallpaper {
     id: string
     title: string
     file_url: string
-    thumbnail_url?: string
+    mime_type?: string | null
+    display_settings?: DisplaySettingsPatch | null
+    renditions?: WallpaperRendition[]
+    composition?: IComposition | null
+    dynamic?: IDynamicSet | null
+    palette?: IPalette | null
+    thumbnail_url?: string | null
+    preview_url?: string | null
     uploader_id: string
     tags: string[]
+    view_count?: number
+    like_count?: number
+    popularity?: number // like_count * 5 + view_count
+    trending_score?: number // popularity decayed by age, see refresh_wallpaper_popularity
+    content_hash?: string | null
+    perceptual_hashes?: string[] | null
     created_at: string
     uploader?: {
         username: string
@@ -15,6 +59,82 @@ export interface Wallpaper {
     }
 }
 
+// Detect the real media type from the file contents, rejecting files that fail the upload checks
+const detectWallpaperType = async (file: File) => {
+    const { data, error } = await validateUpload(file, 'wallpaper')
+    if (error) throw new Error(describeRejection(error, 'wallpaper'))
+    return data
+}
+
+// Generate unique filename, named after the detected type rather than whatever the file was called
+const wallpaperPath = (userId: string, file: File, mimeType: string, suffix: string) =>
+    `${userId}/${Date.now()}${suffix}.${uploadExtension(mimeType) ?? getExtension(file.name)}`
+
+// Upload wallpaper media to Supabase Storage in resumable chunks and return the public URL
+const storeWallpaperFile = (userId: string, file: File, mimeType: string, suffix: string = '') =>
+    storeResumable('wallpapers', wallpaperPath(userId, file, mimeType, suffix), file, mimeType)
+
+// Thumbnails are small enough for a single request
+const storeThumbnailFile = async (userId: string, file: File, suffix: string) => {
+    const fileName = wallpaperPath(userId, file, file.type, suffix)
+
+    const { error: uploadError } = await supabase.storage
+        .from('wallpapers')
+        .upload(fileName, file, { contentType: file.type })
+
+    if (uploadError) throw uploadError
+
+    const { data: { publicUrl } } = supabase.storage
+        .from('wallpapers')
+        .getPublicUrl(fileName)
+
+    return publicUrl
+}
+
+// Thumbnails are optional, a failed upload leaves the wallpaper without them
+const storeThumbnails = async (userId: string, thumbnails: WallpaperThumbnails) => {
+    const store = async (file: File | null, suffix: string) => {
+        if (!file) return null
+        try {
+            return await storeThumbnailFile(userId, file, suffix)
+        } catch (err) {
+            console.error('Failed to upload wallpaper thumbnail:', err)
+            return null
+        }
+    }
+
+    return {
+        thumbnail_url: await store(thumbnails.thumbnail, '-thumb'),
+        preview_url: await store(thumbnails.preview, '-preview')
+    }
+}
+
+export type WallpaperSort = 'newest' | 'oldest' | 'popular' | 'trending'
+
+// Column each sort pages by; id breaks ties
+const SORT_COLUMNS: Record<WallpaperSort, { column: 'created_at' | 'popularity' | 'trending_score', ascending: boolean }> = {
+    newest: { column: 'created_at', ascending: false },
+    oldest: { column: 'created_at', ascending: true },
+    popular: { column: 'popularity', ascending: false },
+    trending: { column: 'trending_score', ascending: false }
+}
+
+export interface WallpaperPageOptions {
+    cursor?: PageCursor | null
+    limit?: number
+    sortBy?: WallpaperSort
+    search?: string
+    tags?: string[] // matches wallpapers with any of these tags
+    ids?: string[] | null // restrict to these wallpapers, e.g. favorites
+}
+
+export interface WallpaperSearchOptions {
+    offset?: number
+    limit?: number
+    tags?: string[] // matches wallpapers with any of these tags
+    ids?: string[] | null // restrict to these wallpapers, e.g. favorites
+}
+
 export const useWallpaper = () => {
     const wallpapers = ref<Wallpaper[]>([])
     const currentWallpaper = ref<Wallpaper | null>({
@@ -23,7 +143,8 @@ export const useWallpaper = () => {
         uploader_id: 'uploader-xyz',
         tags: [],
         created_at: '2024-01-01T00:00:00Z',
-        file_url: '/wallpapers/video_default.mp4'
+        file_url: '/wallpapers/video_default.mp4',
+        mime_type: 'video/mp4'
     })
     const loading = ref(false)
     const error = ref<string | null>(null)
@@ -39,7 +160,8 @@ export const useWallpaper = () => {
                 .from('wallpapers')
                 .select(`
           *,
-          uploader:users(username, avatar_url)
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
         `)
                 .order('created_at', { ascending: false })
 
@@ -56,11 +178,103 @@ export const useWallpaper = () => {
         }
     }
 
-    // Upload new wallpaper
+    // One page of wallpapers for the gallery, newest first unless sorted otherwise
+    const fetchWallpaperPage = async (options: WallpaperPageOptions = {}) => {
+        const { cursor = null, limit = 30, sortBy = 'newest', search = '', tags = [], ids = null } = options
+        const { column, ascending } = SORT_COLUMNS[sortBy]
+
+        try {
+            if (ids && ids.length === 0) {
+                return { data: { items: [] as Wallpaper[], nextCursor: null }, error: null }
+            }
+
+            let query = supabase
+                .from('wallpapers')
+                .select(`
+          *,
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
+        `)
+                .order(column, { ascending })
+                .order('id', { ascending })
+                // One extra row tells us whether another page exists
+                .limit(limit + 1)
+
+            if (search.trim()) query = query.ilike('title', `%${escapeLike(search.trim())}%`)
+            if (tags.length > 0) query = query.overlaps('tags', tags)
+            if (ids) query = query.in('id', ids)
+            if (cursor) query = query.or(cursorFilter(cursor, column, ascending))
+
+            const { data, error: fetchError } = await query
+            if (fetchError) throw fetchError
+
+            const rows = (data || []) as Wallpaper[]
+            const items = rows.slice(0, limit)
+            const nextCursor = rows.length > limit ? cursorOf(items[items.length - 1], column) : null
+
+            return { data: { items, nextCursor }, error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch wallpapers'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // One wallpaper by id, e.g. for a shared link to something not loaded yet
+    const fetchWallpaperById = async (id: string) => {
+        try {
+            const { data, error: fetchError } = await supabase
+                .from('wallpapers')
+                .select(`
+          *,
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
+        `)
+                .eq('id', id)
+                .maybeSingle()
+
+            if (fetchError) throw fetchError
+            if (!data) throw new Error('Wallpaper not found')
+
+            return { data: data as Wallpaper, error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch wallpaper'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // Popular wallpapers sharing a tag with this one; callers rank them, see rankRelated
+    const fetchRelatedCandidates = async (wallpaper: Wallpaper, limit: number = 24) => {
+        try {
+            let query = supabase
+                .from('wallpapers')
+                .select(`
+          *,
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
+        `)
+                .neq('id', wallpaper.id)
+                .order('popularity', { ascending: false })
+                .limit(limit)
+
+            if (wallpaper.tags.length > 0) query = query.overlaps('tags', wallpaper.tags)
+
+            const { data, error: fetchError } = await query
+            if (fetchError) throw fetchError
+
+            return { data: (data || []) as Wallpaper[], error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch related wallpapers'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // Upload new wallpaper, optionally as the media layer of a composition
     const uploadWallpaper = async (
         file: File,
         title: string,
-        tags: string[] = []
+        tags: string[] = [],
+        composition: IComposition | null = null,
+        original: File | null = null // full-size source of an optimized image, kept alongside it
     ) => {
         uploading.value = true
         error.value = null
@@ -69,40 +283,178 @@ export const useWallpaper = () => {
             const { data: { user } } = await supabase.auth.getUser()
             if (!user) throw new Error('User must be authenticated to upload')
 
-            // Generate unique filename
-            const fileExt = file.name.split('.').pop()
-            const fileName = `${user.id}/${Date.now()}.${fileExt}`
+            const media = await detectWallpaperType(file)
+            const { mimeType, kind } = media
+            if (composition && kind !== 'image' && kind !== 'video') {
+                throw new Error('Composition media must be an image or video')
+            }
+            const source = original && kind === 'image'
+                ? { file: original, ...(await detectWallpaperType(original)) }
+                : null
+
+            // Hash what the user picked, so uploading the same original again is caught as an exact copy
+            const fingerprint = source
+                ? await fingerprintFile(source.file, source.kind, source.mimeType)
+                : await fingerprintFile(file, kind, mimeType)
+            const thumbnails = await generateWallpaperThumbnails(file, kind)
+            const publicUrl = await storeWallpaperFile(user.id, file, mimeType)
+            const originalUrl = source
+                ? await storeWallpaperFile(user.id, source.file, source.mimeType, '-original')
+                : null
+            const { thumbnail_url, preview_url } = await storeThumbnails(user.id, thumbnails)
+            const palette = kind === 'image' || kind === 'video' ? await sampleFilePalette(file, kind) : null
 
-            // Upload file to Supabase Storage
-            const { error: uploadError } = await supabase.storage
+            // Save wallpaper metadata to database
+            const { data: wallpaperData, error: dbError } = await supabase
                 .from('wallpapers')
-                .upload(fileName, file)
+                .insert({
+                    title,
+                    file_url: publicUrl,
+                    mime_type: composition ? COMPOSITION_MIME_TYPE : mimeType,
+                    composition: composition ? withMediaSource(composition, publicUrl, mimeType) : null,
+                    palette,
+                    thumbnail_url,
+                    preview_url,
+                    uploader_id: user.id,
+                    tags,
+                    content_hash: fingerprint.content_hash,
+                    perceptual_hashes: fingerprint.perceptual_hashes
+                })
+                .select(`
+          *,
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
+        `)
+                .single()
 
-            if (uploadError) throw uploadError
+            if (dbError) throw dbError
 
-            // Get public URL
-            const { data: { publicUrl } } = supabase.storage
-                .from('wallpapers')
-                .getPublicUrl(fileName)
+            // Record the upload as the original rendition, smaller variants are attached with addRendition
+            if (kind === 'video') {
+                const probe = await probeVideoFile(file)
+                const { data: rendition, error: renditionError } = await supabase
+                    .from('wallpaper_renditions')
+                    .insert({
+                        wallpaper_id: wallpaperData.id,
+                        file_url: publicUrl,
+                        mime_type: mimeType,
+                        width: probe?.width ?? null,
+                        height: probe?.height ?? null,
+                        bitrate: probe?.bitrate ?? null,
+                        is_original: true
+                    })
+                    .select()
+                    .single()
+
+                if (renditionError) {
+                    console.error('Failed to record original rendition:', renditionError)
+                } else {
+                    wallpaperData.renditions = [rendition]
+                }
+            }
+
+            // An optimized image keeps its source as the original rendition
+            if (source && originalUrl) {
+                const { data: renditions, error: renditionError } = await supabase
+                    .from('wallpaper_renditions')
+                    .insert([
+                        {
+                            wallpaper_id: wallpaperData.id,
+                            file_url: publicUrl,
+                            mime_type: mimeType,
+                            width: media.width,
+                            height: media.height,
+                            is_original: false
+                        },
+                        {
+                            wallpaper_id: wallpaperData.id,
+                            file_url: originalUrl,
+                            mime_type: source.mimeType,
+                            width: source.width,
+                            height: source.height,
+                            is_original: true
+                        }
+                    ])
+                    .select()
+
+                if (renditionError) {
+                    console.error('Failed to record original rendition:', renditionError)
+                } else {
+                    wallpaperData.renditions = renditions
+                }
+            }
+
+            // Add to local wallpapers list
+            wallpapers.value.unshift(wallpaperData)
+
+            return { data: wallpaperData, error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Upload failed'
+            error.value = errorMessage
+            return { data: null, error: errorMessage }
+        } finally {
+            uploading.value = false
+        }
+    }
+
+    // Upload a time-of-day set, one file per frame in the same order as set.frames
+    const uploadDynamicWallpaper = async (
+        files: File[],
+        title: string,
+        tags: string[],
+        dynamicSet: IDynamicSet
+    ) => {
+        uploading.value = true
+        error.value = null
+
+        try {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user) throw new Error('User must be authenticated to upload')
+            if (files.length !== dynamicSet.frames.length) {
+                throw new Error('Every frame needs a file')
+            }
+
+            // Check every file before uploading any of them
+            const types = await Promise.all(files.map(detectWallpaperType))
+            if (types.some(({ kind }) => kind !== 'image' && kind !== 'video')) {
+                throw new Error('Dynamic wallpaper frames must be images or videos')
+            }
+
+            const sources: { file_url: string, mime_type: string }[] = []
+            for (const [index, file] of files.entries()) {
+                const mimeType = types[index].mimeType
+                const publicUrl = await storeWallpaperFile(user.id, file, mimeType, `-${index}`)
+                sources.push({ file_url: publicUrl, mime_type: mimeType })
+            }
+            const palette = await sampleFilePalette(files[0], types[0].kind as 'image' | 'video')
+            const { thumbnail_url, preview_url } = await storeThumbnails(
+                user.id,
+                await generateWallpaperThumbnails(files[0], types[0].kind)
+            )
 
-            // Save wallpaper metadata to database
             const { data: wallpaperData, error: dbError } = await supabase
                 .from('wallpapers')
                 .insert({
                     title,
-                    file_url: publicUrl,
+                    // The first frame doubles as the preview for lists and older clients
+                    file_url: sources[0].file_url,
+                    mime_type: DYNAMIC_MIME_TYPE,
+                    dynamic: withFrameSources(dynamicSet, sources),
+                    palette,
+                    thumbnail_url,
+                    preview_url,
                     uploader_id: user.id,
                     tags
                 })
                 .select(`
           *,
-          uploader:users(username, avatar_url)
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
         `)
                 .single()
 
             if (dbError) throw dbError
 
-            // Add to local wallpapers list
             wallpapers.value.unshift(wallpaperData)
 
             return { data: wallpaperData, error: null }
@@ -127,7 +479,7 @@ export const useWallpaper = () => {
             // Get wallpaper info first
             const { data: wallpaper, error: fetchError } = await supabase
                 .from('wallpapers')
-                .select('*')
+                .select('*, renditions:wallpaper_renditions(file_url)')
                 .eq('id', wallpaperId)
                 .eq('uploader_id', user.id)
                 .single()
@@ -135,14 +487,22 @@ export const useWallpaper = () => {
             if (fetchError) throw fetchError
             if (!wallpaper) throw new Error('Wallpaper not found or unauthorized')
 
-            // Extract filename from URL for storage deletion
-            const urlParts = wallpaper.file_url.split('/')
-            const fileName = urlParts.slice(-2).join('/') // user_id/filename
+            // Extract filenames from URLs for storage deletion, dynamic sets own one file per frame
+            const fileUrls = new Set<string>([wallpaper.file_url])
+            if (wallpaper.thumbnail_url) fileUrls.add(wallpaper.thumbnail_url)
+            if (wallpaper.preview_url) fileUrls.add(wallpaper.preview_url)
+            for (const frame of (wallpaper.dynamic as IDynamicSet | null)?.frames ?? []) {
+                fileUrls.add(frame.file_url)
+            }
+            for (const rendition of (wallpaper.renditions as { file_url: string }[] | null) ?? []) {
+                fileUrls.add(rendition.file_url)
+            }
+            const fileNames = [...fileUrls].map(url => url.split('/').slice(-2).join('/')) // user_id/filename
 
             // Delete from storage
             const { error: storageError } = await supabase.storage
                 .from('wallpapers')
-                .remove([fileName])
+                .remove(fileNames)
 
             if (storageError) throw storageError
 
@@ -173,6 +533,135 @@ export const useWallpaper = () => {
         }
     }
 
+    // Update the uploader's default display settings for a wallpaper
+    const updateWallpaperDisplay = async (wallpaperId: string, displaySettings: DisplaySettingsPatch | null) => {
+        error.value = null
+
+        try {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user) throw new Error('User must be authenticated')
+
+            const { data, error: updateError } = await supabase
+                .from('wallpapers')
+                .update({ display_settings: displaySettings })
+                .eq('id', wallpaperId)
+                .eq('uploader_id', user.id)
+                .select(`
+          *,
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
+        `)
+                .single()
+
+            if (updateError) throw updateError
+
+            wallpapers.value = wallpapers.value.map(w => w.id === wallpaperId ? data : w)
+            if (currentWallpaper.value?.id === wallpaperId) {
+                currentWallpaper.value = data
+            }
+
+            return { data, error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to update display settings'
+            error.value = errorMessage
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // Attach another encode of a video wallpaper, e.g. a 720p or AV1 copy made outside the app.
+    // The uploader or an admin can; returns the wallpaper's renditions afterwards.
+    const addRendition = async (wallpaper: Wallpaper, file: File, codecs: string | null = null) => {
+        error.value = null
+
+        try {
+            const { data: { user } } = await supabase.auth.getUser()
+            if (!user) throw new Error('User must be authenticated')
+            if (resolveMediaKind(wallpaper)?.kind !== 'video') {
+                throw new Error('Only video wallpapers have renditions')
+            }
+
+            const { mimeType, kind } = await detectWallpaperType(file)
+            if (kind !== 'video') throw new Error('Renditions must be videos')
+
+            const probe = await probeVideoFile(file)
+            const publicUrl = await storeWallpaperFile(user.id, file, mimeType, `-${probe?.height ?? 'rendition'}p`)
+
+            // Once a wallpaper has renditions only they are played, so rows from before renditions
+            // existed need their uploaded file recorded as well
+            const rows = [
+                {
+                    wallpaper_id: wallpaper.id,
+                    file_url: publicUrl,
+                    mime_type: mimeType,
+                    codecs: codecs?.trim() || null,
+                    width: probe?.width ?? null,
+                    height: probe?.height ?? null,
+                    bitrate: probe?.bitrate ?? null,
+                    is_original: false
+                }
+            ]
+            if (!wallpaper.renditions?.some(rendition => rendition.is_original)) {
+                // Without a size the original can't be weighed against the smaller copies
+                const original = await probeVideo(wallpaper.file_url)
+                rows.unshift({
+                    wallpaper_id: wallpaper.id,
+                    file_url: wallpaper.file_url,
+                    mime_type: wallpaper.mime_type ?? mimeType,
+                    codecs: null,
+                    width: original?.width || null,
+                    height: original?.height || null,
+                    bitrate: null,
+                    is_original: true
+                })
+            }
+
+            const { data, error: insertError } = await supabase
+                .from('wallpaper_renditions')
+                .insert(rows)
+                .select()
+
+            if (insertError) throw insertError
+
+            return { data: [...(wallpaper.renditions ?? []), ...(data as WallpaperRendition[])], error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to add rendition'
+            error.value = errorMessage
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // The original upload stays, it's what the wallpaper row points at
+    const removeRendition = async (wallpaper: Wallpaper, renditionId: string) => {
+        error.value = null
+
+        try {
+            const rendition = wallpaper.renditions?.find(candidate => candidate.id === renditionId)
+            if (!rendition) throw new Error('Rendition not found')
+            if (rendition.is_original || rendition.file_url === wallpaper.file_url) {
+                throw new Error("The original file can't be removed")
+            }
+
+            const { error: deleteError } = await supabase
+                .from('wallpaper_renditions')
+                .delete()
+                .eq('id', renditionId)
+
+            if (deleteError) throw deleteError
+
+            // The row is gone either way; a file left behind is only wasted space
+            const { error: storageError } = await supabase.storage
+                .from('wallpapers')
+                .remove([rendition.file_url.split('/').slice(-2).join('/')])
+            if (storageError) console.error('Failed to remove rendition file:', storageError)
+
+            return { data: (wallpaper.renditions ?? []).filter(candidate => candidate.id !== renditionId), error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to remove rendition'
+            error.value = errorMessage
+            return { data: null, error: errorMessage }
+        }
+    }
+
     // Set current wallpaper
     const setCurrentWallpaper = (wallpaper: Wallpaper | null) => {
         currentWallpaper.value = wallpaper
@@ -190,13 +679,102 @@ export const useWallpaper = () => {
         )
     }
 
-    // Search wallpapers by title
-    const searchWallpapers = (query: string) => {
-        const lowercaseQuery = query.toLowerCase()
-        return wallpapers.value.filter(wallpaper =>
-            wallpaper.title.toLowerCase().includes(lowercaseQuery) ||
-            wallpaper.tags.some(tag => tag.toLowerCase().includes(lowercaseQuery))
-        )
+    // Ranked full-text search over title, tags and uploader name, see search_wallpapers in supabase-schema.sql
+    const searchWallpapers = async (query: string, options: WallpaperSearchOptions = {}) => {
+        const { offset = 0, limit = 30, tags = [], ids = null } = options
+        const searchQuery = normalizeSearchQuery(query)
+
+        try {
+            if (!searchQuery || (ids && ids.length === 0)) {
+                return { data: { items: [] as Wallpaper[], nextOffset: null }, error: null }
+            }
+
+            const { data, error: searchError } = await supabase
+                .rpc('search_wallpapers', {
+                    search_query: searchQuery,
+                    filter_tags: tags.length > 0 ? tags : null,
+                    filter_ids: ids,
+                    page_limit: limit + 1,
+                    page_offset: offset
+                })
+                .select(`
+          *,
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
+        `)
+
+            if (searchError) throw searchError
+
+            return { data: offsetPage((data || []) as Wallpaper[], offset, limit), error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Search failed'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // Existing wallpapers that look like the file, exact copies first
+    const findSimilarWallpapers = async (file: File) => {
+        try {
+            const { mimeType, kind } = await detectWallpaperType(file)
+            const fingerprint = await fingerprintFile(file, kind, mimeType)
+            if (!fingerprint.content_hash && !fingerprint.perceptual_hashes) {
+                return { data: [], error: null }
+            }
+
+            const { data, error: searchError } = await supabase
+                .rpc('find_similar_wallpapers', {
+                    file_hash: fingerprint.content_hash,
+                    frame_hashes: fingerprint.perceptual_hashes
+                })
+                .select(`
+          *,
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
+        `)
+
+            if (searchError) throw searchError
+
+            return { data: rankDuplicates(fingerprint, (data || []) as Wallpaper[]), error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to check for duplicates'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    // Likely duplicate pairs across all wallpapers, admins only
+    const fetchDuplicatePairs = async () => {
+        try {
+            const { data, error: fetchError } = await supabase.rpc('duplicate_wallpaper_pairs')
+
+            if (fetchError) throw fetchError
+
+            return { data: (data || []) as DuplicatePair[], error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch duplicates'
+            return { data: null, error: errorMessage }
+        }
+    }
+
+    const fetchWallpapersByIds = async (ids: string[]) => {
+        try {
+            if (ids.length === 0) return { data: [] as Wallpaper[], error: null }
+
+            const { data, error: fetchError } = await supabase
+                .from('wallpapers')
+                .select(`
+          *,
+          uploader:users(username, avatar_url),
+          renditions:wallpaper_renditions(*)
+        `)
+                .in('id', ids)
+
+            if (fetchError) throw fetchError
+
+            return { data: (data || []) as Wallpaper[], error: null }
+        } catch (err) {
+            const errorMessage = err instanceof Error ? err.message : 'Failed to fetch wallpapers'
+            return { data: null, error: errorMessage }
+        }
     }
 
     return {
@@ -206,11 +784,21 @@ export const useWallpaper = () => {
         error: readonly(error),
         uploading: readonly(uploading),
         fetchWallpapers,
+        fetchWallpaperPage,
+        fetchWallpaperById,
+        fetchRelatedCandidates,
         uploadWallpaper,
+        uploadDynamicWallpaper,
         deleteWallpaper,
+        updateWallpaperDisplay,
+        addRendition,
+        removeRendition,
         setCurrentWallpaper,
         getWallpaperById,
         getWallpapersByTags,
-        searchWallpapers
+        searchWallpapers,
+        findSimilarWallpapers,
+        fetchDuplicatePairs,
+        fetchWallpapersByIds
     }
 }
\ No newline at end of file
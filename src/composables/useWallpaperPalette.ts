@@ -0,0 +1,77 @@
+import { ref, readonly, watch } from 'vue'
+import { useWallpaperStore } from '../stores/wallpaperStore'
+import type { Wallpaper } from './useWallpaper'
+import type { IPalette } from '../types/palette'
+import { paletteVariables, parsePalette, samplePalette } from '../utils/palette'
+import { previewSource } from '../utils/previewSource'
+
+const STORAGE_KEY = 'wallpaperPalettes'
+const MAX_CACHED = 200
+
+const VARIABLES = [
+    '--wallpaper-dominant',
+    '--wallpaper-accent',
+    '--wallpaper-average',
+    '--panel-bg',
+    '--panel-border',
+    '--panel-text'
+]
+
+const loadCache = (): Record<string, IPalette> => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY)
+        return stored ? JSON.parse(stored) : {}
+    } catch (err) {
+        console.error('Failed to load wallpaper palettes:', err)
+        return {}
+    }
+}
+
+// Insertion order doubles as age, so the oldest entries are dropped first
+const saveCache = (cache: Record<string, IPalette>) => {
+    const entries = Object.entries(cache).slice(-MAX_CACHED)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)))
+}
+
+// Samples the current wallpaper's colors and exposes them as CSS variables on the document root
+export const useWallpaperPalette = () => {
+    const wallpaperStore = useWallpaperStore()
+    const palette = ref<IPalette | null>(null)
+    const cache = loadCache()
+    let request = 0
+
+    const apply = (value: IPalette | null) => {
+        palette.value = value
+        const style = document.documentElement.style
+        if (!value) {
+            VARIABLES.forEach(name => style.removeProperty(name))
+            return
+        }
+        Object.entries(paletteVariables(value)).forEach(([name, color]) => style.setProperty(name, color))
+    }
+
+    const update = async (wallpaper: Wallpaper | null) => {
+        const current = ++request
+        if (!wallpaper) return apply(null)
+
+        const known = parsePalette(wallpaper.palette) || parsePalette(cache[wallpaper.id])
+        if (known) return apply(known)
+
+        const source = previewSource(wallpaper)
+        const sampled = source ? await samplePalette(source.src, source.kind) : null
+        // Another wallpaper may have been selected while sampling
+        if (current !== request) return
+
+        if (sampled) {
+            cache[wallpaper.id] = sampled
+            saveCache(cache)
+        }
+        apply(sampled)
+    }
+
+    watch(() => wallpaperStore.currentWallpaper as Wallpaper | null, update, { immediate: true })
+
+    return {
+        palette: readonly(palette)
+    }
+}
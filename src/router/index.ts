@@ -1,10 +1,14 @@
 import { createRouter, createWebHistory } from 'vue-router'
 import Home from '../pages/Home.vue'
 import Admin from '../pages/Admin.vue'
+import Live from '../pages/Live.vue'
+import WallpaperDetail from '../pages/WallpaperDetail.vue'
 
 const routes = [
     { path: '/', component: Home },
     { path: '/admin', component: Admin },
+    { path: '/live', component: Live },
+    { path: '/wallpaper/:id', component: WallpaperDetail, props: true },
 ]
 
 const router = createRouter({
@@ -0,0 +1,92 @@
+import { defineStore } from 'pinia'
+import { ref, readonly } from 'vue'
+
+export type AudioEffect = 'pulse' | 'glow' | 'hue' | 'burst'
+
+export interface AudioEffectSettings {
+    enabled: boolean
+    sensitivity: number // 0 → 1
+}
+
+export interface AudioReactiveSettings {
+    enabled: boolean
+    beatSensitivity: number // 0 → 1
+    effects: Record<AudioEffect, AudioEffectSettings>
+}
+
+const STORAGE_KEY = 'audioReactive'
+
+const clampSensitivity = (value: number) => Math.min(1, Math.max(0, value))
+
+export const useAudioReactiveStore = defineStore('audioReactive', () => {
+    // State
+    const settings = ref<AudioReactiveSettings>({
+        enabled: false,
+        beatSensitivity: 0.5,
+        effects: {
+            pulse: { enabled: true, sensitivity: 0.5 },
+            glow: { enabled: true, sensitivity: 0.5 },
+            hue: { enabled: false, sensitivity: 0.5 },
+            burst: { enabled: false, sensitivity: 0.5 }
+        }
+    })
+
+    // Actions
+    const updateSettings = (updates: Partial<Omit<AudioReactiveSettings, 'effects'>>) => {
+        settings.value = {
+            ...settings.value,
+            ...updates,
+            beatSensitivity: clampSensitivity(updates.beatSensitivity ?? settings.value.beatSensitivity)
+        }
+        saveSettings()
+    }
+
+    const setEffect = (effect: AudioEffect, updates: Partial<AudioEffectSettings>) => {
+        const current = settings.value.effects[effect]
+        settings.value = {
+            ...settings.value,
+            effects: {
+                ...settings.value.effects,
+                [effect]: {
+                    ...current,
+                    ...updates,
+                    sensitivity: clampSensitivity(updates.sensitivity ?? current.sensitivity)
+                }
+            }
+        }
+        saveSettings()
+    }
+
+    // Persistence
+    const saveSettings = () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings.value))
+    }
+
+    const loadSettings = () => {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY)
+            if (stored) {
+                const saved = JSON.parse(stored)
+                settings.value = {
+                    ...settings.value,
+                    ...saved,
+                    effects: { ...settings.value.effects, ...saved.effects }
+                }
+            }
+        } catch (err) {
+            console.error('Failed to load audio reactive settings:', err)
+        }
+    }
+
+    loadSettings()
+
+    return {
+        // State
+        settings: readonly(settings),
+
+        // Actions
+        updateSettings,
+        setEffect,
+        loadSettings
+    }
+})
@@ -0,0 +1,131 @@
+import { defineStore } from 'pinia'
+import { ref, readonly, watch } from 'vue'
+import { useUserStore } from './userStore'
+import type { Wallpaper } from '../composables/useWallpaper'
+import type { DisplaySettingsPatch, IDisplaySettings } from '../types/display'
+import { combineDisplayPatches, resolveDisplaySettings } from '../utils/displaySettings'
+import { debounce } from '../utils/general'
+
+const STORAGE_KEY = 'wallpaperDisplay'
+
+export const useDisplayStore = defineStore('display', () => {
+    const userStore = useUserStore()
+
+    // State
+    const userDefaults = ref<DisplaySettingsPatch>({}) // Applies to every wallpaper
+    const overrides = ref<Record<string, DisplaySettingsPatch>>({}) // Keyed by wallpaper ID
+    const sessionPatch = ref<DisplaySettingsPatch | null>(null) // Wins over everything, never saved
+
+    // Getters
+    const settingsFor = (wallpaper: Pick<Wallpaper, 'id' | 'display_settings'> | null): IDisplaySettings => {
+        return resolveDisplaySettings(
+            wallpaper?.display_settings,
+            userDefaults.value,
+            wallpaper ? overrides.value[wallpaper.id] : null,
+            sessionPatch.value
+        )
+    }
+
+    const hasOverride = (wallpaperId: string) => !!overrides.value[wallpaperId]
+
+    // Actions
+    const setUserDefaults = (patch: DisplaySettingsPatch) => {
+        userDefaults.value = combineDisplayPatches(userDefaults.value, patch)
+        saveSettings()
+    }
+
+    // Merging an empty patch would keep every value, so resetting replaces them
+    const clearUserDefaults = () => {
+        userDefaults.value = {}
+        saveSettings()
+    }
+
+    const setOverride = (wallpaperId: string, patch: DisplaySettingsPatch) => {
+        overrides.value = {
+            ...overrides.value,
+            [wallpaperId]: combineDisplayPatches(overrides.value[wallpaperId], patch)
+        }
+        saveSettings()
+    }
+
+    const clearOverride = (wallpaperId: string) => {
+        const remaining = { ...overrides.value }
+        delete remaining[wallpaperId]
+        overrides.value = remaining
+        saveSettings()
+    }
+
+    // Used by the live route to apply display options from its URL
+    const setSessionPatch = (patch: DisplaySettingsPatch | null) => {
+        sessionPatch.value = patch
+    }
+
+    // Sliders fire continuously, so only sync to Supabase once they settle
+    const syncPreferences = debounce(() => {
+        if (!userStore.isAuthenticated) return
+        userStore.updatePreferences({
+            display_defaults: userDefaults.value,
+            display_overrides: overrides.value
+        })
+    }, 1000)
+
+    // Persistence
+    const saveSettings = () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({
+            userDefaults: userDefaults.value,
+            overrides: overrides.value
+        }))
+        syncPreferences()
+    }
+
+    const loadSettings = () => {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY)
+            if (stored) {
+                const settings = JSON.parse(stored)
+                userDefaults.value = settings.userDefaults ?? {}
+                overrides.value = settings.overrides ?? {}
+            }
+        } catch (err) {
+            console.error('Failed to load display settings:', err)
+        }
+    }
+
+    loadSettings()
+
+    // Saved settings replace the local ones once per account, later rows only echo this device's own syncs
+    let appliedFor: string | null = null
+    watch(() => userStore.preferences, (preferences) => {
+        if (!preferences) {
+            appliedFor = null
+            return
+        }
+        if (preferences.user_id === appliedFor) return
+        appliedFor = preferences.user_id
+        if (preferences.display_defaults) {
+            userDefaults.value = { ...preferences.display_defaults }
+        }
+        if (preferences.display_overrides) {
+            overrides.value = { ...preferences.display_overrides }
+        }
+    }, { immediate: true })
+
+    return {
+        // State
+        userDefaults: readonly(userDefaults),
+        overrides: readonly(overrides),
+        sessionPatch: readonly(sessionPatch),
+
+        // Getters
+        settingsFor,
+        hasOverride,
+
+        // Actions
+        setUserDefaults,
+        clearUserDefaults,
+        setOverride,
+        clearOverride,
+        setSessionPatch,
+        loadSettings
+    }
+})
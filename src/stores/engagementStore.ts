@@ -0,0 +1,135 @@
+import { defineStore } from 'pinia'
+import { ref, readonly, watch } from 'vue'
+import { useEngagement } from '../composables/useEngagement'
+import type { LikeTarget } from '../composables/useEngagement'
+import { useUserStore } from './userStore'
+import { useWallpaperStore } from './wallpaperStore'
+import { useMusicStore } from './musicStore'
+import { createCounterBatch } from '../utils/counterBatch'
+
+// Views and plays are sent in one request once things go quiet for this long
+const COUNTER_WAIT = 5000
+
+// Likes for the signed-in user, plus the view and play counters behind the popular and trending sorts
+export const useEngagementStore = defineStore('engagement', () => {
+    const engagement = useEngagement()
+    const userStore = useUserStore()
+    const wallpaperStore = useWallpaperStore()
+    const musicStore = useMusicStore()
+
+    // State
+    const likedWallpapers = ref<string[]>([])
+    const likedTracks = ref<string[]>([])
+    // Latest known like counts by `${target}:${id}`, newer than the counts rows were loaded with
+    const likeCounts = ref<Record<string, number>>({})
+    const error = ref<string | null>(null)
+
+    const likedIds = (target: LikeTarget) => (target === 'wallpaper' ? likedWallpapers : likedTracks)
+
+    // Getters
+    const isLiked = (target: LikeTarget, id: string) => likedIds(target).value.includes(id)
+
+    const likeCount = (target: LikeTarget, id: string, loadedCount: number = 0) =>
+        likeCounts.value[`${target}:${id}`] ?? loadedCount
+
+    // Actions
+    const loadLikes = async () => {
+        if (!userStore.isAuthenticated) {
+            likedWallpapers.value = []
+            likedTracks.value = []
+            return { success: true, error: null }
+        }
+
+        const [wallpapers, tracks] = await Promise.all([
+            engagement.fetchLikedIds('wallpaper'),
+            engagement.fetchLikedIds('track')
+        ])
+        const loadError = wallpapers.error || tracks.error
+        if (loadError) {
+            error.value = loadError
+            return { success: false, error: loadError }
+        }
+
+        likedWallpapers.value = wallpapers.data ?? []
+        likedTracks.value = tracks.data ?? []
+        return { success: true, error: null }
+    }
+
+    // Optimistic: the heart and count flip at once and roll back if the request fails
+    const toggleLike = async (target: LikeTarget, id: string, loadedCount: number = 0) => {
+        if (!userStore.isAuthenticated) {
+            return { success: false, error: 'Sign in to like' }
+        }
+
+        const ids = likedIds(target)
+        const key = `${target}:${id}`
+        const liked = !ids.value.includes(id)
+        const previousIds = ids.value
+        const previousCounts = likeCounts.value
+
+        ids.value = liked ? [...ids.value, id] : ids.value.filter(likedId => likedId !== id)
+        likeCounts.value = {
+            ...likeCounts.value,
+            [key]: Math.max(0, likeCount(target, id, loadedCount) + (liked ? 1 : -1))
+        }
+
+        const result = await engagement.setLiked(target, id, liked)
+        if (result.error) {
+            ids.value = previousIds
+            likeCounts.value = previousCounts
+            error.value = result.error
+            return { success: false, error: result.error }
+        }
+
+        if (result.data !== null) {
+            likeCounts.value = { ...likeCounts.value, [key]: result.data }
+        }
+        return { success: true, error: null }
+    }
+
+    // The counters only take views and plays from signed-in accounts, guests' batches are dropped
+    const sendCounts = (target: LikeTarget) => (counts: Record<string, number>) => {
+        if (!userStore.isAuthenticated || userStore.isAnonymous) return
+        engagement.incrementCounts(target, counts)
+    }
+
+    const views = createCounterBatch(sendCounts('wallpaper'), COUNTER_WAIT)
+    const plays = createCounterBatch(sendCounts('track'), COUNTER_WAIT)
+
+    const recordView = (wallpaperId: string) => views.add(wallpaperId)
+    const recordPlay = (trackId: string) => plays.add(trackId)
+
+    // A view is a wallpaper being shown, a play is a track being picked
+    watch(() => wallpaperStore.currentWallpaper?.id, (id) => {
+        if (id) recordView(id)
+    })
+
+    watch(() => musicStore.currentTrack?.id, (id) => {
+        if (id) recordPlay(id)
+    })
+
+    watch(() => userStore.user?.id, () => loadLikes(), { immediate: true })
+
+    // Don't lose the last batch when the tab closes
+    window.addEventListener('pagehide', () => {
+        views.flush()
+        plays.flush()
+    })
+
+    return {
+        // State
+        likedWallpapers: readonly(likedWallpapers),
+        likedTracks: readonly(likedTracks),
+        error: readonly(error),
+
+        // Getters
+        isLiked,
+        likeCount,
+
+        // Actions
+        loadLikes,
+        toggleLike,
+        recordView,
+        recordPlay
+    }
+})
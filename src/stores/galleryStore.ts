@@ -0,0 +1,109 @@
+import { defineStore } from 'pinia'
+import { ref, readonly, watch } from 'vue'
+import { useWallpaper } from '../composables/useWallpaper'
+import type { Wallpaper } from '../composables/useWallpaper'
+import { useWallpaperStore } from './wallpaperStore'
+import { mergePage } from '../utils/pagination'
+import type { PageCursor } from '../utils/pagination'
+import { debounce } from '../utils/general'
+import { normalizeSearchQuery, SEARCH_DEBOUNCE_MS } from '../utils/search'
+
+const PAGE_SIZE = 30
+
+// Paged wallpaper list for the gallery, filtered by the search, tags and sort in wallpaperStore.
+// While searching, pages come from the ranked server search instead of the sorted listing.
+export const useGalleryStore = defineStore('gallery', () => {
+    const wallpaperComposable = useWallpaper()
+    const wallpaperStore = useWallpaperStore()
+
+    // State
+    const items = ref<Wallpaper[]>([])
+    const cursor = ref<PageCursor | null>(null)
+    const nextOffset = ref(0) // search pages are ranked, so they page by offset
+    const hasMore = ref(true)
+    const favoritesOnly = ref(false)
+    const loading = ref(false)
+    const error = ref<string | null>(null)
+
+    // Bumped on every reload so pages from an older filter are dropped
+    let generation = 0
+
+    // Actions
+    const loadPage = async () => {
+        const current = generation
+        loading.value = true
+        error.value = null
+
+        const search = normalizeSearchQuery(wallpaperStore.searchQuery)
+        const filters = {
+            limit: PAGE_SIZE,
+            tags: [...wallpaperStore.selectedTags],
+            ids: favoritesOnly.value ? [...wallpaperStore.favoriteWallpapers] : null
+        }
+        const result = search
+            ? await wallpaperComposable.searchWallpapers(search, { ...filters, offset: nextOffset.value })
+            : await wallpaperComposable.fetchWallpaperPage({ ...filters, cursor: cursor.value, sortBy: wallpaperStore.sortBy })
+        if (current !== generation) return { success: false, error: null }
+
+        loading.value = false
+        if (result.error || !result.data) {
+            error.value = result.error
+            return { success: false, error: result.error }
+        }
+
+        items.value = mergePage(items.value, result.data.items)
+        if ('nextOffset' in result.data) {
+            hasMore.value = result.data.nextOffset !== null
+            nextOffset.value = result.data.nextOffset ?? nextOffset.value
+        } else {
+            hasMore.value = result.data.nextCursor !== null
+            cursor.value = result.data.nextCursor
+        }
+        return { success: true, error: null }
+    }
+
+    const reload = () => {
+        generation++
+        items.value = []
+        cursor.value = null
+        nextOffset.value = 0
+        hasMore.value = true
+        return loadPage()
+    }
+
+    const loadMore = () => {
+        if (loading.value || !hasMore.value) return
+        return loadPage()
+    }
+
+    const setFavoritesOnly = (enabled: boolean) => {
+        favoritesOnly.value = enabled
+    }
+
+    // Typing in the search box shouldn't fire a request per keystroke
+    const reloadSoon = debounce(reload, SEARCH_DEBOUNCE_MS)
+
+    watch(
+        () => [
+            wallpaperStore.searchQuery,
+            wallpaperStore.selectedTags.join(','),
+            wallpaperStore.sortBy,
+            favoritesOnly.value
+        ],
+        () => reloadSoon()
+    )
+
+    return {
+        // State
+        items: readonly(items),
+        hasMore: readonly(hasMore),
+        favoritesOnly: readonly(favoritesOnly),
+        loading: readonly(loading),
+        error: readonly(error),
+
+        // Actions
+        reload,
+        loadMore,
+        setFavoritesOnly
+    }
+})
@@ -3,6 +3,8 @@ import { ref, computed, readonly, watch } from 'vue'
 import { useMusic } from '../composables/useMusic'
 import type { MusicTrack } from '../composables/useMusic'
 import { ITrack } from '../types/music'
+import { debounce } from '../utils/general'
+import { normalizeSearchQuery, SEARCH_DEBOUNCE_MS } from '../utils/search'
 
 export type PlayMode = 'single' | 'repeat' | 'shuffle'
 
@@ -23,6 +25,9 @@ export const useMusicStore = defineStore('music', () => {
     const duration = ref(0)
     const playMode = ref<PlayMode>('single')
     const autoPlay = ref(false)
+    const searchQuery = ref('')
+    const searchResults = ref<ITrack[]>([]) // best matches for searchQuery, most relevant first
+    const searching = ref(false)
     const loading = ref(false)
     const error = ref<string | null>(null)
 
@@ -213,6 +218,12 @@ export const useMusicStore = defineStore('music', () => {
         musicComposable.toggleMute()
     }
 
+    // Mute without changing the saved volume, used by the live route
+    const setMuted = (muted: boolean) => {
+        isMuted.value = muted
+        musicComposable.setMuted(muted)
+    }
+
     const seekTo = (time: number) => {
         musicComposable.seekTo(time)
     }
@@ -345,8 +356,44 @@ export const useMusicStore = defineStore('music', () => {
         return result
     }
 
-    const searchTracks = (query: string) => {
-        return musicComposable.searchTracks(query)
+    const searchTracks = (query: string, options: { offset?: number, limit?: number } = {}) => {
+        return musicComposable.searchTracks(query, options)
+    }
+
+    // Bumped per search so a slow response can't overwrite a newer one
+    let searchGeneration = 0
+
+    const runSearch = async (query: string) => {
+        const current = ++searchGeneration
+        searching.value = true
+
+        const result = await musicComposable.searchTracks(query)
+        if (current !== searchGeneration) return { success: false, error: null }
+
+        searching.value = false
+        if (result.error || !result.data) {
+            error.value = result.error
+            return { success: false, error: result.error }
+        }
+
+        searchResults.value = result.data.items
+        return { success: true, error: null }
+    }
+
+    const runSearchSoon = debounce(runSearch, SEARCH_DEBOUNCE_MS)
+
+    const setSearchQuery = (query: string) => {
+        searchQuery.value = query
+
+        if (normalizeSearchQuery(query)) {
+            searching.value = true
+            runSearchSoon(query)
+            return
+        }
+        runSearchSoon.cancel()
+        searchGeneration++
+        searchResults.value = []
+        searching.value = false
     }
 
     const getTrackById = (id: string) => {
@@ -441,6 +488,9 @@ export const useMusicStore = defineStore('music', () => {
         playMode: readonly(playMode),
         autoPlay: readonly(autoPlay),
         loading: readonly(loading),
+        searchQuery: readonly(searchQuery),
+        searchResults: readonly(searchResults),
+        searching: readonly(searching),
         error: readonly(error),
 
         // Getters
@@ -464,6 +514,7 @@ export const useMusicStore = defineStore('music', () => {
         restartTrack,
         setVolume,
         toggleMute,
+        setMuted,
         seekTo,
         seekToPercentage,
         setPlaylist,
@@ -477,6 +528,7 @@ export const useMusicStore = defineStore('music', () => {
         setAutoPlay,
         deleteTrack,
         searchTracks,
+        setSearchQuery,
         getTrackById,
         loadCurrentTrack,
         loadPlaylist,
@@ -0,0 +1,164 @@
+import { defineStore } from 'pinia'
+import { ref, computed, readonly } from 'vue'
+import { evaluatePowerPolicy } from '../utils/powerPolicy'
+import type { BatteryStatus, PowerConditions, PowerPreset } from '../utils/powerPolicy'
+
+// Not part of the DOM typings, only Chromium based browsers expose it
+interface BatteryManager extends EventTarget, BatteryStatus {}
+
+const STORAGE_KEY = 'wallpaperPowerPreset'
+const IDLE_TICK = 5000
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'wheel', 'touchstart']
+
+export const usePowerStore = defineStore('power', () => {
+    // State
+    const preset = ref<PowerPreset>('balanced')
+    const requested = ref(false)
+    const hidden = ref(false)
+    const focused = ref(true)
+    const reducedMotion = ref(false)
+    const battery = ref<BatteryStatus | null>(null)
+    const lastActivity = ref(Date.now())
+    const now = ref(Date.now())
+
+    let initialized = false
+    let idleTimer: ReturnType<typeof setInterval> | null = null
+    let motionQuery: MediaQueryList | null = null
+    let batteryManager: BatteryManager | null = null
+
+    // Getters
+    const conditions = computed<PowerConditions>(() => ({
+        requested: requested.value,
+        hidden: hidden.value,
+        focused: focused.value,
+        reducedMotion: reducedMotion.value,
+        battery: battery.value,
+        idleMs: Math.max(0, now.value - lastActivity.value)
+    }))
+
+    const decision = computed(() => evaluatePowerPolicy(conditions.value, preset.value))
+    const playbackState = computed(() => decision.value.state)
+
+    // Listeners
+    const onVisibilityChange = () => {
+        hidden.value = document.visibilityState === 'hidden'
+    }
+
+    const onFocus = () => {
+        focused.value = true
+        onActivity()
+    }
+
+    const onBlur = () => {
+        focused.value = false
+    }
+
+    const onMotionChange = (event: MediaQueryListEvent) => {
+        reducedMotion.value = event.matches
+    }
+
+    const onBatteryChange = () => {
+        if (!batteryManager) return
+        battery.value = { level: batteryManager.level, charging: batteryManager.charging }
+    }
+
+    // Pointer events fire constantly, so only record activity about once a second
+    const onActivity = () => {
+        const timestamp = Date.now()
+        if (timestamp - lastActivity.value < 1000) return
+        lastActivity.value = timestamp
+        now.value = timestamp
+    }
+
+    const watchBattery = async () => {
+        const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManager> }).getBattery
+        if (!getBattery) return
+
+        try {
+            batteryManager = await getBattery.call(navigator)
+            batteryManager.addEventListener('levelchange', onBatteryChange)
+            batteryManager.addEventListener('chargingchange', onBatteryChange)
+            onBatteryChange()
+        } catch (err) {
+            console.error('Failed to read battery status:', err)
+        }
+    }
+
+    // Actions
+    const initialize = () => {
+        if (initialized) return
+        initialized = true
+        loadPreset()
+
+        hidden.value = document.visibilityState === 'hidden'
+        focused.value = document.hasFocus()
+        document.addEventListener('visibilitychange', onVisibilityChange)
+        window.addEventListener('focus', onFocus)
+        window.addEventListener('blur', onBlur)
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }))
+
+        motionQuery = window.matchMedia('(prefers-reduced-motion: reduce)')
+        reducedMotion.value = motionQuery.matches
+        motionQuery.addEventListener('change', onMotionChange)
+
+        idleTimer = setInterval(() => {
+            now.value = Date.now()
+        }, IDLE_TICK)
+
+        watchBattery()
+    }
+
+    const dispose = () => {
+        if (!initialized) return
+        initialized = false
+
+        document.removeEventListener('visibilitychange', onVisibilityChange)
+        window.removeEventListener('focus', onFocus)
+        window.removeEventListener('blur', onBlur)
+        ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity))
+        motionQuery?.removeEventListener('change', onMotionChange)
+        batteryManager?.removeEventListener('levelchange', onBatteryChange)
+        batteryManager?.removeEventListener('chargingchange', onBatteryChange)
+
+        if (idleTimer) {
+            clearInterval(idleTimer)
+            idleTimer = null
+        }
+    }
+
+    const setPreset = (value: PowerPreset) => {
+        preset.value = value
+        localStorage.setItem(STORAGE_KEY, value)
+    }
+
+    // Not persisted, a pause request only lasts for the page it was made on
+    const setRequestedPause = (paused: boolean) => {
+        requested.value = paused
+    }
+
+    // Persistence
+    const loadPreset = () => {
+        const stored = localStorage.getItem(STORAGE_KEY)
+        if (stored === 'performance' || stored === 'balanced' || stored === 'battery-saver') {
+            preset.value = stored
+        }
+    }
+
+    return {
+        // State
+        preset: readonly(preset),
+        battery: readonly(battery),
+        requested: readonly(requested),
+
+        // Getters
+        conditions,
+        decision,
+        playbackState,
+
+        // Actions
+        initialize,
+        dispose,
+        setPreset,
+        setRequestedPause
+    }
+})
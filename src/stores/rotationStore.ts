@@ -0,0 +1,313 @@
+import { defineStore } from 'pinia'
+import { ref, computed, readonly, watch } from 'vue'
+import { useWallpaperStore } from './wallpaperStore'
+import { useWallpaper } from '../composables/useWallpaper'
+import type { Wallpaper, WallpaperPageOptions } from '../composables/useWallpaper'
+import { pickNextIndex, pickPreviousIndex, remainingUntil } from '../utils/rotation'
+import type { RotationOrder } from '../utils/rotation'
+import { mergePage } from '../utils/pagination'
+import type { PageCursor } from '../utils/pagination'
+import { debounce } from '../utils/general'
+import { normalizeSearchQuery, SEARCH_DEBOUNCE_MS } from '../utils/search'
+import { isUploadedWallpaperId } from '../utils/favorites'
+
+export type RotationSource = 'all' | 'favorites' | 'tag'
+
+export interface RotationSettings {
+    enabled: boolean
+    source: RotationSource
+    tag: string | null
+    intervalMinutes: number
+    order: RotationOrder
+}
+
+const STORAGE_KEY = 'wallpaperRotation'
+const MAX_HISTORY = 50
+const MIN_INTERVAL_MINUTES = 0.25
+const QUEUE_PAGE_SIZE = 50
+
+export const useRotationStore = defineStore('rotation', () => {
+    const wallpaperComposable = useWallpaper()
+    const wallpaperStore = useWallpaperStore()
+
+    // State
+    const settings = ref<RotationSettings>({
+        enabled: false,
+        source: 'all',
+        tag: null,
+        intervalMinutes: 10,
+        order: 'sequential'
+    })
+    const isPaused = ref(false)
+    const history = ref<string[]>([]) // Previously shown wallpaper IDs
+    const nextRotationAt = ref<number | null>(null)
+    const pausedRemaining = ref<number | null>(null)
+    const queue = ref<Wallpaper[]>([]) // loaded a page at a time while rotating, see loadQueuePage
+    const queueComplete = ref(false)
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let persist = true // Off during a live session so URL options don't overwrite saved settings
+    let queueCursor: PageCursor | null = null
+    // Bumped on every reload so pages for an older source are dropped
+    let queueGeneration = 0
+
+    // Getters
+    const currentIndex = computed(() => {
+        const currentId = wallpaperStore.currentWallpaper?.id
+        return queue.value.findIndex(w => w.id === currentId)
+    })
+
+    const isActive = computed(() => settings.value.enabled && !isPaused.value)
+    const canRotate = computed(() => queue.value.length > 1)
+
+    // Actions
+    // Which wallpapers the source draws from, null when it can't match any
+    const queueOptions = (): WallpaperPageOptions | null => {
+        switch (settings.value.source) {
+            case 'favorites':
+                return { ids: wallpaperStore.favoriteWallpapers.filter(isUploadedWallpaperId) }
+            case 'tag':
+                return settings.value.tag ? { tags: [settings.value.tag] } : null
+            default:
+                return {
+                    search: normalizeSearchQuery(wallpaperStore.searchQuery),
+                    tags: [...wallpaperStore.selectedTags],
+                    sortBy: wallpaperStore.sortBy
+                }
+        }
+    }
+
+    const loadQueuePage = async () => {
+        const current = queueGeneration
+        const options = queueOptions()
+        if (!options) {
+            queueComplete.value = true
+            return
+        }
+
+        const result = await wallpaperComposable.fetchWallpaperPage({
+            ...options,
+            cursor: queueCursor,
+            limit: QUEUE_PAGE_SIZE
+        })
+        if (current !== queueGeneration) return
+        if (result.error || !result.data) {
+            console.error('Failed to load wallpaper rotation queue:', result.error)
+            return
+        }
+
+        queue.value = mergePage(queue.value, result.data.items)
+        queueCursor = result.data.nextCursor
+        queueComplete.value = queueCursor === null
+    }
+
+    const reloadQueue = () => {
+        queueGeneration++
+        queue.value = []
+        queueCursor = null
+        queueComplete.value = false
+        if (settings.value.enabled) return loadQueuePage()
+    }
+
+    const clearTimer = () => {
+        if (timer) {
+            clearTimeout(timer)
+            timer = null
+        }
+    }
+
+    const schedule = (delay: number = settings.value.intervalMinutes * 60_000) => {
+        clearTimer()
+        if (!isActive.value) return
+
+        nextRotationAt.value = Date.now() + delay
+        timer = setTimeout(() => {
+            next()
+        }, delay)
+        saveState()
+    }
+
+    const showWallpaper = (wallpaper: Wallpaper) => {
+        const currentId = wallpaperStore.currentWallpaper?.id
+        if (currentId && currentId !== wallpaper.id) {
+            history.value.push(currentId)
+            if (history.value.length > MAX_HISTORY) {
+                history.value = history.value.slice(-MAX_HISTORY)
+            }
+        }
+        wallpaperStore.setCurrentWallpaper(wallpaper)
+    }
+
+    const next = async () => {
+        // At the end of what's loaded, fetch the next page before wrapping around
+        if (!queueComplete.value && currentIndex.value >= queue.value.length - 1) {
+            await loadQueuePage()
+        }
+
+        const index = pickNextIndex(queue.value.length, currentIndex.value, settings.value.order)
+        if (index !== -1) {
+            showWallpaper(queue.value[index])
+        }
+        schedule()
+        saveState()
+    }
+
+    const previous = () => {
+        // Walk back through what was actually shown before falling back to queue order
+        while (history.value.length > 0) {
+            const previousId = history.value.pop() as string
+            const wallpaper = queue.value.find(w => w.id === previousId)
+            if (wallpaper) {
+                wallpaperStore.setCurrentWallpaper(wallpaper)
+                schedule()
+                saveState()
+                return
+            }
+        }
+
+        const index = pickPreviousIndex(queue.value.length, currentIndex.value)
+        if (index !== -1) {
+            wallpaperStore.setCurrentWallpaper(queue.value[index])
+        }
+        schedule()
+        saveState()
+    }
+
+    const pause = () => {
+        if (isPaused.value) return
+        pausedRemaining.value = remainingUntil(nextRotationAt.value)
+        isPaused.value = true
+        clearTimer()
+        saveState()
+    }
+
+    const resume = () => {
+        if (!isPaused.value) return
+        isPaused.value = false
+        schedule(pausedRemaining.value ?? undefined)
+        pausedRemaining.value = null
+        saveState()
+    }
+
+    const togglePause = () => {
+        if (isPaused.value) {
+            resume()
+        } else {
+            pause()
+        }
+    }
+
+    const updateSettings = (updates: Partial<RotationSettings>) => {
+        settings.value = {
+            ...settings.value,
+            ...updates,
+            intervalMinutes: Math.max(
+                MIN_INTERVAL_MINUTES,
+                updates.intervalMinutes ?? settings.value.intervalMinutes
+            )
+        }
+
+        if (settings.value.enabled) {
+            schedule()
+        } else {
+            clearTimer()
+            nextRotationAt.value = null
+        }
+        saveState()
+    }
+
+    const initialize = () => {
+        loadState()
+        if (!settings.value.enabled || isPaused.value) return
+
+        // Continue the interval that was running before the reload
+        schedule(remainingUntil(nextRotationAt.value))
+    }
+
+    // Rotate with settings that only last until endSession, e.g. from the live route's URL
+    const startSession = (overrides: Partial<RotationSettings>) => {
+        persist = false
+        isPaused.value = false
+        history.value = []
+        pausedRemaining.value = null
+        updateSettings({ ...overrides, enabled: true })
+    }
+
+    const endSession = () => {
+        if (persist) return
+        clearTimer()
+        persist = true
+        loadState()
+    }
+
+    // Filters and favorites change what the source matches; typing a search shouldn't reload per keystroke
+    const reloadQueueSoon = debounce(reloadQueue, SEARCH_DEBOUNCE_MS)
+
+    watch(
+        () => [
+            settings.value.enabled,
+            settings.value.source,
+            settings.value.tag,
+            wallpaperStore.favoriteWallpapers.join(','),
+            wallpaperStore.searchQuery,
+            wallpaperStore.selectedTags.join(','),
+            wallpaperStore.sortBy
+        ],
+        () => reloadQueueSoon()
+    )
+
+    // Persistence
+    const saveState = () => {
+        if (!persist) return
+        const state = {
+            settings: settings.value,
+            isPaused: isPaused.value,
+            history: history.value,
+            nextRotationAt: nextRotationAt.value,
+            pausedRemaining: pausedRemaining.value
+        }
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+    }
+
+    const loadState = () => {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY)
+            if (stored) {
+                const state = JSON.parse(stored)
+                settings.value = { ...settings.value, ...state.settings }
+                isPaused.value = state.isPaused ?? false
+                history.value = state.history ?? []
+                nextRotationAt.value = state.nextRotationAt ?? null
+                pausedRemaining.value = state.pausedRemaining ?? null
+            }
+        } catch (err) {
+            console.error('Failed to load wallpaper rotation state:', err)
+        }
+    }
+
+    return {
+        // State
+        settings: readonly(settings),
+        isPaused: readonly(isPaused),
+        history: readonly(history),
+        nextRotationAt: readonly(nextRotationAt),
+        queue: readonly(queue),
+        queueComplete: readonly(queueComplete),
+
+        // Getters
+        currentIndex,
+        isActive,
+        canRotate,
+
+        // Actions
+        initialize,
+        startSession,
+        endSession,
+        updateSettings,
+        next,
+        previous,
+        pause,
+        resume,
+        togglePause
+    }
+})
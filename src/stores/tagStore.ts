@@ -0,0 +1,101 @@
+import { defineStore } from 'pinia'
+import { ref, computed, readonly } from 'vue'
+import { useTags } from '../composables/useTags'
+import type { ITagCount, TagAliases } from '../types/tags'
+import { normalizeTags, suggestTags } from '../utils/tags'
+
+export const useTagStore = defineStore('tags', () => {
+    const tagsComposable = useTags()
+
+    // State
+    const counts = ref<ITagCount[]>([]) // most used first
+    const aliases = ref<TagAliases>({})
+    const isAdmin = ref(false)
+    const loaded = ref(false)
+    const loading = ref(false)
+    const error = ref<string | null>(null)
+
+    // Getters
+    const hiddenSlugs = computed(() => new Set(counts.value.filter(tag => tag.hidden).map(tag => tag.slug)))
+
+    const labels = computed(() => Object.fromEntries(counts.value.map(tag => [tag.slug, tag.label])))
+
+    // Actions
+    const loadTags = async () => {
+        loading.value = true
+        error.value = null
+
+        const [countsResult, aliasesResult] = await Promise.all([
+            tagsComposable.fetchTagCounts(),
+            tagsComposable.fetchAliases()
+        ])
+
+        loading.value = false
+        const loadError = countsResult.error || aliasesResult.error
+        if (loadError) {
+            error.value = loadError
+            return { success: false, error: loadError }
+        }
+
+        counts.value = countsResult.data ?? []
+        aliases.value = aliasesResult.data ?? {}
+        loaded.value = true
+        return { success: true, error: null }
+    }
+
+    // Load once for autocomplete; admin changes reload explicitly
+    const ensureLoaded = () => (loaded.value || loading.value ? Promise.resolve() : loadTags())
+
+    const checkAdmin = async () => {
+        const result = await tagsComposable.fetchIsAdmin()
+        isAdmin.value = result.data
+        return result
+    }
+
+    const normalize = (tags: string[]) => normalizeTags(tags, aliases.value)
+
+    const suggest = (query: string, exclude: string[] = []) => suggestTags(query, counts.value, exclude)
+
+    const labelFor = (slug: string) => labels.value[slug] ?? slug
+
+    const runAdminAction = async (action: Promise<{ error: string | null }>) => {
+        const result = await action
+        if (result.error) {
+            error.value = result.error
+            return { success: false, error: result.error }
+        }
+        return loadTags()
+    }
+
+    const mergeTags = (sourceSlugs: string[], targetSlug: string) =>
+        runAdminAction(tagsComposable.mergeTags(sourceSlugs, targetSlug))
+
+    const renameTag = (slug: string, label: string) =>
+        runAdminAction(tagsComposable.renameTag(slug, label))
+
+    const setTagHidden = (slug: string, hidden: boolean) =>
+        runAdminAction(tagsComposable.setTagHidden(slug, hidden))
+
+    return {
+        // State
+        counts: readonly(counts),
+        aliases: readonly(aliases),
+        isAdmin: readonly(isAdmin),
+        loading: readonly(loading),
+        error: readonly(error),
+
+        // Getters
+        hiddenSlugs,
+
+        // Actions
+        loadTags,
+        ensureLoaded,
+        checkAdmin,
+        normalize,
+        suggest,
+        labelFor,
+        mergeTags,
+        renameTag,
+        setTagHidden
+    }
+})
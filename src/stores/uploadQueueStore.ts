@@ -0,0 +1,183 @@
+import { defineStore } from 'pinia'
+import { ref, computed, readonly } from 'vue'
+import { useWallpaperStore } from './wallpaperStore'
+import { useMusicStore } from './musicStore'
+import { useTagStore } from './tagStore'
+import { describeRejection, validateUpload } from '../utils/uploadValidation'
+import type { UploadTarget } from '../utils/uploadValidation'
+import { forEachLimited, itemsToStart, parseFileName } from '../utils/uploadQueue'
+import { prepareImageUpload } from '../utils/imageOptimizer'
+import type { OptimizationSettings } from '../utils/imageOptimizer'
+
+export type QueueItemStatus = 'checking' | 'ready' | 'rejected' | 'queued' | 'uploading' | 'done' | 'failed'
+
+export interface QueueItem {
+    id: string
+    file: File
+    target: UploadTarget
+    title: string
+    artist: string // music only
+    tags: string[] // wallpapers only
+    status: QueueItemStatus
+    error: string | null
+    optimization: OptimizationSettings | null // settings in effect when the upload was started
+}
+
+export type QueueItemPatch = Partial<Pick<QueueItem, 'title' | 'artist' | 'tags'>>
+
+// Files uploading at once; each is already split into chunks
+export const MAX_CONCURRENT_UPLOADS = 2
+// Files decoded at once while checking, a dropped folder of photos would otherwise decode all of them together
+const MAX_CONCURRENT_CHECKS = 2
+
+// Audio goes to the music library, anything else is checked as a wallpaper
+const checkFile = async (file: File) => {
+    const wallpaper = await validateUpload(file, 'wallpaper')
+    if (wallpaper.error?.code !== 'unsupported-type') return { target: 'wallpaper' as const, result: wallpaper }
+
+    const music = await validateUpload(file, 'music')
+    if (music.error?.code === 'unsupported-type') return { target: 'wallpaper' as const, result: wallpaper }
+    return { target: 'music' as const, result: music }
+}
+
+// Lives outside the upload panel, so closing the panel doesn't stop or forget the queue
+export const useUploadQueueStore = defineStore('uploadQueue', () => {
+    const wallpaperStore = useWallpaperStore()
+    const musicStore = useMusicStore()
+    const tagStore = useTagStore()
+
+    // State
+    const items = ref<QueueItem[]>([])
+    let nextId = 0
+
+    // Getters
+    const readyItems = computed(() => items.value.filter(item => item.status === 'ready'))
+    const pendingCount = computed(
+        () => items.value.filter(item => item.status === 'queued' || item.status === 'uploading').length
+    )
+    const finishedCount = computed(
+        () => items.value.filter(item => item.status === 'done' || item.status === 'rejected').length
+    )
+    const canStart = computed(
+        () => readyItems.value.length > 0 && readyItems.value.every(item => item.title.trim())
+    )
+
+    const updateItem = (id: string, patch: Partial<QueueItem>) => {
+        items.value = items.value.map(item => (item.id === id ? { ...item, ...patch } : item))
+    }
+
+    const uploadItem = async (item: QueueItem) => {
+        updateItem(item.id, { status: 'uploading', error: null })
+
+        try {
+            const result =
+                item.target === 'music'
+                    ? await musicStore.uploadTrack(item.file, item.title.trim(), item.artist.trim() || undefined)
+                    : await uploadWallpaperItem(item)
+
+            updateItem(item.id, result.success ? { status: 'done' } : { status: 'failed', error: result.error })
+        } catch (err) {
+            updateItem(item.id, { status: 'failed', error: err instanceof Error ? err.message : 'Upload failed' })
+        }
+        pump()
+    }
+
+    const uploadWallpaperItem = async (item: QueueItem) => {
+        const { file, original } = item.optimization
+            ? await prepareImageUpload(item.file, item.optimization)
+            : { file: item.file, original: null }
+        return wallpaperStore.uploadWallpaper(file, item.title.trim(), item.tags, null, original)
+    }
+
+    const pump = () => {
+        for (const item of itemsToStart(items.value, MAX_CONCURRENT_UPLOADS)) {
+            void uploadItem(item)
+        }
+    }
+
+    // Actions
+    const addFiles = async (files: File[]) => {
+        const added = files.map((file): QueueItem => ({
+            id: `queued-${++nextId}`,
+            file,
+            target: 'wallpaper',
+            title: '',
+            artist: '',
+            tags: [],
+            status: 'checking',
+            error: null,
+            optimization: null
+        }))
+        items.value = [...items.value, ...added]
+
+        await forEachLimited(added, MAX_CONCURRENT_CHECKS, async ({ id, file }) => {
+            const checked = await checkFile(file).catch((err: unknown) => {
+                const message = err instanceof Error ? err.message : 'Failed to check file'
+                updateItem(id, { status: 'rejected', error: message })
+                return null
+            })
+            if (!checked) return
+
+            const { target, result } = checked
+            const details = parseFileName(file.name, target)
+            updateItem(id, {
+                target,
+                title: details.title,
+                artist: details.artist ?? '',
+                tags: target === 'wallpaper' ? tagStore.normalize(details.tags) : [],
+                status: result.error ? 'rejected' : 'ready',
+                error: result.error ? describeRejection(result.error, target) : null
+            })
+        })
+    }
+
+    // Edits apply until the item starts uploading
+    const editItem = (id: string, patch: QueueItemPatch) => {
+        const item = items.value.find(candidate => candidate.id === id)
+        if (!item || (item.status !== 'ready' && item.status !== 'failed')) return
+        updateItem(id, patch)
+    }
+
+    const removeItem = (id: string) => {
+        items.value = items.value.filter(item => item.id !== id || item.status === 'uploading')
+    }
+
+    // Still images among the wallpapers are optimized with the given settings before uploading
+    const startUploads = (optimization: OptimizationSettings | null = null) => {
+        if (!canStart.value) return
+        items.value = items.value.map(item =>
+            item.status === 'ready' ? { ...item, status: 'queued', optimization: optimization && { ...optimization } } : item
+        )
+        pump()
+    }
+
+    const retryItem = (id: string) => {
+        const item = items.value.find(candidate => candidate.id === id)
+        if (item?.status !== 'failed' || !item.title.trim()) return
+        updateItem(id, { status: 'queued', error: null })
+        pump()
+    }
+
+    const clearFinished = () => {
+        items.value = items.value.filter(item => item.status !== 'done' && item.status !== 'rejected')
+    }
+
+    return {
+        // State
+        items: readonly(items),
+
+        // Getters
+        readyItems,
+        pendingCount,
+        finishedCount,
+        canStart,
+
+        // Actions
+        addFiles,
+        editItem,
+        removeItem,
+        startUploads,
+        retryItem,
+        clearFinished
+    }
+})
@@ -2,6 +2,8 @@ import { defineStore } from 'pinia'
 import { ref, computed, readonly } from 'vue'
 import { useSupabase, supabase } from '../composables/useSupabase'
 import type { User, Session } from '@supabase/supabase-js'
+import type { DisplaySettingsPatch } from '../types/display'
+import type { IWidgetInstance } from '../types/widgets'
 
 export interface UserProfile {
     id: string
@@ -19,6 +21,9 @@ export interface UserPreferences {
     theme?: string
     auto_play_music: boolean
     show_chat: boolean
+    display_defaults?: DisplaySettingsPatch | null
+    display_overrides?: Record<string, DisplaySettingsPatch> | null
+    widget_layout?: IWidgetInstance[] | null
 }
 
 export const useUserStore = defineStore('user', () => {
@@ -275,11 +280,11 @@ export const useUserStore = defineStore('user', () => {
         error.value = null
 
         try {
+            // Only the changed columns, so display and widget syncs can't overwrite each other's
             const { data, error: updateError } = await supabase
                 .from('user_preferences')
                 .upsert({
                     user_id: user.value.id,
-                    ...preferences.value,
                     ...updates
                 })
                 .select()
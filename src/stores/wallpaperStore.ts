@@ -1,83 +1,78 @@
 import { defineStore } from 'pinia'
-import { ref, computed, readonly } from 'vue'
+import { ref, computed, readonly, watch } from 'vue'
 import { useWallpaper } from '../composables/useWallpaper'
-import type { Wallpaper } from '../composables/useWallpaper'
+import { useFavorites } from '../composables/useFavorites'
+import { useUserStore } from './userStore'
+import { useTagStore } from './tagStore'
+import type { Wallpaper, WallpaperRendition, WallpaperSort } from '../composables/useWallpaper'
+import type { DisplaySettingsPatch } from '../types/display'
+import type { IComposition } from '../types/composition'
+import type { IDynamicSet } from '../types/dynamic'
+import { applyFavoriteChange, parseFavoriteIds } from '../utils/favorites'
+import { duplicateClusters } from '../utils/duplicates'
+import type { DuplicateCluster, DuplicateMatch } from '../utils/duplicates'
+
+// Users whose device favorites were already merged into their account, see syncFavorites
+const MERGED_FAVORITES_KEY = 'favoritesMergedUsers'
+
+export type TransitionEffect = 'none' | 'crossfade' | 'slide' | 'zoom' | 'dissolve'
+
+export interface TransitionSettings {
+    effect: TransitionEffect
+    duration: number // milliseconds
+}
 
 export const useWallpaperStore = defineStore('wallpaper', () => {
     const wallpaperComposable = useWallpaper()
+    const favoritesComposable = useFavorites()
+    const userStore = useUserStore()
+    const tagStore = useTagStore()
 
     // State
-    const wallpapers = ref<Wallpaper[]>([])
+    const wallpapers = ref<Wallpaper[]>([]) // only filled by fetchWallpapers, e.g. for the admin dashboard
     const currentWallpaper = ref<Wallpaper | null>({
         id: '245245234',
         title: 'Sunset',
         uploader_id: 'uploader-xyz',
         tags: [],
         created_at: '2024-01-01T00:00:00Z',
-        file_url: '/wallpapers/video_default.mp4'
+        file_url: '/wallpapers/video_default.mp4',
+        mime_type: 'video/mp4'
     })
-    const favoriteWallpapers = ref<string[]>([]) // Array of wallpaper IDs
+    const favoriteWallpapers = ref<string[]>([]) // Array of wallpaper IDs, cached locally and synced when signed in
     const searchQuery = ref('')
     const selectedTags = ref<string[]>([])
-    const sortBy = ref<'newest' | 'oldest' | 'popular'>('newest')
+    const sortBy = ref<WallpaperSort>('newest')
+    const transitionSettings = ref<TransitionSettings>({
+        effect: 'crossfade',
+        duration: 1200
+    })
     const loading = ref(false)
     const error = ref<string | null>(null)
 
-    // Getters
-    const filteredWallpapers = computed(() => {
-        let filtered = [...wallpapers.value]
-
-        // Apply search filter
-        if (searchQuery.value.trim()) {
-            filtered = wallpaperComposable.searchWallpapers(searchQuery.value)
-        }
-
-        // Apply tag filter
-        if (selectedTags.value.length > 0) {
-            filtered = filtered.filter(wallpaper =>
-                selectedTags.value.some(tag => wallpaper.tags.includes(tag))
-            )
-        }
+    let persistCurrent = true // Off during a live session, see startSession
 
-        // Apply sorting
-        switch (sortBy.value) {
-            case 'newest':
-                filtered.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-                break
-            case 'oldest':
-                filtered.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
-                break
-            case 'popular':
-                // For now, sort by newest. Later can implement view counts or likes
-                filtered.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-                break
-        }
-
-        return filtered
-    })
-
-    const favoriteWallpapersList = computed(() =>
-        wallpapers.value.filter(wallpaper => favoriteWallpapers.value.includes(wallpaper.id))
+    // Getters
+    // Tags admins have hidden stay on the wallpapers but aren't offered as filters
+    const allTags = computed(() =>
+        tagStore.counts
+            .filter(tag => !tag.hidden)
+            .map(tag => tag.slug)
+            .sort()
     )
 
-    const allTags = computed(() => {
-        const tags = new Set<string>()
-        wallpapers.value.forEach(wallpaper => {
-            wallpaper.tags.forEach(tag => tags.add(tag))
-        })
-        return Array.from(tags).sort()
-    })
-
     const hasCurrentWallpaper = computed(() => !!currentWallpaper.value)
 
     // Actions
+    // Wallpapers themselves load where they're shown: the gallery and rotation by page, single ones by id
     const initializeStore = async () => {
         loading.value = true
         error.value = null
 
         try {
-            await fetchWallpapers()
+            await tagStore.ensureLoaded()
             loadFavorites()
+            loadTransitionSettings()
         } catch (err) {
             error.value = err instanceof Error ? err.message : 'Failed to initialize wallpaper store'
         } finally {
@@ -107,12 +102,24 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         }
     }
 
-    const uploadWallpaper = async (file: File, title: string, tags: string[] = []) => {
+    const uploadWallpaper = async (
+        file: File,
+        title: string,
+        tags: string[] = [],
+        composition: IComposition | null = null,
+        original: File | null = null
+    ) => {
         loading.value = true
         error.value = null
 
         try {
-            const result = await wallpaperComposable.uploadWallpaper(file, title, tags)
+            const result = await wallpaperComposable.uploadWallpaper(
+                file,
+                title,
+                tagStore.normalize(tags),
+                composition,
+                original
+            )
 
             if (result.error) {
                 error.value = result.error
@@ -122,6 +129,40 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
             if (result.data) {
                 wallpapers.value.unshift(result.data)
             }
+            // Tags the upload introduced are offered as filters from now on
+            tagStore.loadTags()
+
+            return { success: true, data: result.data, error: null }
+        } catch (err) {
+            error.value = err instanceof Error ? err.message : 'Upload failed'
+            return { success: false, error: error.value }
+        } finally {
+            loading.value = false
+        }
+    }
+
+    const uploadDynamicWallpaper = async (
+        files: File[],
+        title: string,
+        tags: string[],
+        dynamicSet: IDynamicSet
+    ) => {
+        loading.value = true
+        error.value = null
+
+        try {
+            const result = await wallpaperComposable.uploadDynamicWallpaper(files, title, tagStore.normalize(tags), dynamicSet)
+
+            if (result.error) {
+                error.value = result.error
+                return { success: false, error: result.error }
+            }
+
+            if (result.data) {
+                wallpapers.value.unshift(result.data)
+            }
+            // Tags the upload introduced are offered as filters from now on
+            tagStore.loadTags()
 
             return { success: true, data: result.data, error: null }
         } catch (err) {
@@ -152,8 +193,8 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
                 currentWallpaper.value = null
             }
 
-            // Remove from favorites
-            removeFavorite(wallpaperId)
+            // Remove from favorites, the database row goes with the wallpaper
+            setFavoriteLocally(wallpaperId, false)
 
             return { success: true, error: null }
         } catch (err) {
@@ -164,11 +205,80 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         }
     }
 
+    const updateWallpaperDisplay = async (wallpaperId: string, displaySettings: DisplaySettingsPatch | null) => {
+        error.value = null
+
+        try {
+            const result = await wallpaperComposable.updateWallpaperDisplay(wallpaperId, displaySettings)
+
+            if (result.error) {
+                error.value = result.error
+                return { success: false, error: result.error }
+            }
+
+            wallpapers.value = wallpapers.value.map(w => w.id === wallpaperId ? result.data : w)
+            if (currentWallpaper.value?.id === wallpaperId) {
+                setCurrentWallpaper(result.data)
+            }
+
+            return { success: true, error: null }
+        } catch (err) {
+            error.value = err instanceof Error ? err.message : 'Failed to update display settings'
+            return { success: false, error: error.value }
+        }
+    }
+
+    const setRenditions = (wallpaperId: string, renditions: WallpaperRendition[]) => {
+        wallpapers.value = wallpapers.value.map(w => (w.id === wallpaperId ? { ...w, renditions } : w))
+        if (currentWallpaper.value?.id === wallpaperId) {
+            setCurrentWallpaper({ ...currentWallpaper.value, renditions })
+        }
+    }
+
+    const addRendition = async (wallpaper: Wallpaper, file: File, codecs: string | null = null) => {
+        error.value = null
+
+        try {
+            const result = await wallpaperComposable.addRendition(wallpaper, file, codecs)
+
+            if (result.error || !result.data) {
+                error.value = result.error
+                return { success: false, error: result.error }
+            }
+
+            setRenditions(wallpaper.id, result.data)
+            return { success: true, data: result.data, error: null }
+        } catch (err) {
+            error.value = err instanceof Error ? err.message : 'Failed to add rendition'
+            return { success: false, error: error.value }
+        }
+    }
+
+    const removeRendition = async (wallpaper: Wallpaper, renditionId: string) => {
+        error.value = null
+
+        try {
+            const result = await wallpaperComposable.removeRendition(wallpaper, renditionId)
+
+            if (result.error || !result.data) {
+                error.value = result.error
+                return { success: false, error: result.error }
+            }
+
+            setRenditions(wallpaper.id, result.data)
+            return { success: true, data: result.data, error: null }
+        } catch (err) {
+            error.value = err instanceof Error ? err.message : 'Failed to remove rendition'
+            return { success: false, error: error.value }
+        }
+    }
+
     const setCurrentWallpaper = (wallpaper: Wallpaper | null) => {
         currentWallpaper.value = wallpaper
         wallpaperComposable.setCurrentWallpaper(wallpaper)
 
         // Save to localStorage for persistence
+        if (!persistCurrent) return
         if (wallpaper) {
             localStorage.setItem('currentWallpaper', JSON.stringify(wallpaper))
         } else {
@@ -176,6 +286,18 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         }
     }
 
+    // Show wallpapers without saving them until endSession, e.g. on the live route, so a host tool
+    // opening its URL doesn't change what the app restores
+    const startSession = () => {
+        persistCurrent = false
+    }
+
+    const endSession = () => {
+        if (persistCurrent) return
+        persistCurrent = true
+        loadCurrentWallpaperFromStorage()
+    }
+
     const loadCurrentWallpaperFromStorage = () => {
         try {
             const stored = localStorage.getItem('currentWallpaper')
@@ -189,29 +311,36 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         }
     }
 
-    const addFavorite = (wallpaperId: string) => {
-        if (!favoriteWallpapers.value.includes(wallpaperId)) {
-            favoriteWallpapers.value.push(wallpaperId)
-            saveFavorites()
-        }
+    const setFavoriteLocally = (wallpaperId: string, favorite: boolean) => {
+        favoriteWallpapers.value = applyFavoriteChange(favoriteWallpapers.value, wallpaperId, favorite)
+        saveFavorites()
     }
 
-    const removeFavorite = (wallpaperId: string) => {
-        const index = favoriteWallpapers.value.indexOf(wallpaperId)
-        if (index > -1) {
-            favoriteWallpapers.value.splice(index, 1)
-            saveFavorites()
-        }
-    }
+    // Optimistic: flip locally first and roll back if Supabase rejects the change
+    const syncFavorite = async (wallpaperId: string, favorite: boolean) => {
+        if (isFavorite(wallpaperId) === favorite) return { success: true, error: null }
 
-    const toggleFavorite = (wallpaperId: string) => {
-        if (favoriteWallpapers.value.includes(wallpaperId)) {
-            removeFavorite(wallpaperId)
-        } else {
-            addFavorite(wallpaperId)
+        setFavoriteLocally(wallpaperId, favorite)
+        if (!userStore.isAuthenticated) return { success: true, error: null }
+
+        const result = favorite
+            ? await favoritesComposable.addFavorites([wallpaperId])
+            : await favoritesComposable.removeFavorite(wallpaperId)
+
+        if (result.error) {
+            setFavoriteLocally(wallpaperId, !favorite)
+            error.value = result.error
+            return { success: false, error: result.error }
         }
+        return { success: true, error: null }
     }
 
+    const addFavorite = (wallpaperId: string) => syncFavorite(wallpaperId, true)
+
+    const removeFavorite = (wallpaperId: string) => syncFavorite(wallpaperId, false)
+
+    const toggleFavorite = (wallpaperId: string) => syncFavorite(wallpaperId, !isFavorite(wallpaperId))
+
     const isFavorite = (wallpaperId: string): boolean => {
         return favoriteWallpapers.value.includes(wallpaperId)
     }
@@ -224,13 +353,89 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         try {
             const stored = localStorage.getItem('favoriteWallpapers')
             if (stored) {
-                favoriteWallpapers.value = JSON.parse(stored)
+                favoriteWallpapers.value = parseFavoriteIds(JSON.parse(stored))
             }
         } catch (err) {
             favoriteWallpapers.value = []
         }
     }
 
+    const mergedFavoriteUsers = (): string[] => {
+        try {
+            return parseFavoriteIds(JSON.parse(localStorage.getItem(MERGED_FAVORITES_KEY) || '[]'))
+        } catch (err) {
+            console.error('Failed to load merged favorite users:', err)
+            return []
+        }
+    }
+
+    // On sign-in, favorites saved on this device before are added to the account once,
+    // then the account's list replaces the local one and follows changes made elsewhere
+    const syncFavorites = async (userId: string) => {
+        const merged = mergedFavoriteUsers()
+        let unmerged: string[] = []
+        if (!merged.includes(userId)) {
+            loadFavorites()
+            const result = await favoritesComposable.addFavorites(favoriteWallpapers.value)
+            if (result.error) {
+                // Keep the device's favorites so the next sign-in tries again, but still load the account
+                console.error('Failed to merge device favorites:', result.error)
+                unmerged = favoriteWallpapers.value
+            } else {
+                localStorage.setItem(MERGED_FAVORITES_KEY, JSON.stringify([...merged, userId]))
+            }
+        }
+
+        const result = await favoritesComposable.fetchFavoriteIds()
+        if (result.error || !result.data) {
+            error.value = result.error
+            return { success: false, error: result.error }
+        }
+
+        favoriteWallpapers.value = parseFavoriteIds([...result.data, ...unmerged])
+        saveFavorites()
+        favoritesComposable.subscribeToFavorites(
+            userId,
+            change => setFavoriteLocally(change.wallpaperId, change.favorite),
+            wallpaperIds => {
+                favoriteWallpapers.value = parseFavoriteIds([...wallpaperIds, ...unmerged])
+                saveFavorites()
+            }
+        )
+        return { success: true, error: null }
+    }
+
+    // Signing out leaves the device with no favorites rather than the last account's
+    watch(() => userStore.user?.id, (userId, previousUserId) => {
+        favoritesComposable.unsubscribeFromFavorites()
+        if (userId) {
+            syncFavorites(userId)
+        } else if (previousUserId) {
+            favoriteWallpapers.value = []
+            saveFavorites()
+        }
+    }, { immediate: true })
+
+    const setTransitionSettings = (updates: Partial<TransitionSettings>) => {
+        transitionSettings.value = {
+            ...transitionSettings.value,
+            ...updates,
+            duration: Math.max(0, updates.duration ?? transitionSettings.value.duration)
+        }
+        localStorage.setItem('wallpaperTransition', JSON.stringify(transitionSettings.value))
+    }
+
+    const loadTransitionSettings = () => {
+        try {
+            const stored = localStorage.getItem('wallpaperTransition')
+            if (stored) {
+                transitionSettings.value = { ...transitionSettings.value, ...JSON.parse(stored) }
+            }
+        } catch (err) {
+            console.error('Failed to load transition settings:', err)
+        }
+    }
+
     const setSearchQuery = (query: string) => {
         searchQuery.value = query
     }
@@ -257,7 +462,7 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         selectedTags.value = []
     }
 
-    const setSortBy = (sort: 'newest' | 'oldest' | 'popular') => {
+    const setSortBy = (sort: WallpaperSort) => {
         sortBy.value = sort
     }
 
@@ -265,6 +470,46 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         return wallpapers.value.find(w => w.id === id) || null
     }
 
+    // From the loaded list when possible, otherwise straight from Supabase
+    const loadWallpaperById = async (id: string) => {
+        const loaded = getWallpaperById(id)
+        if (loaded) return { success: true, data: loaded, error: null }
+
+        const result = await wallpaperComposable.fetchWallpaperById(id)
+        if (result.error || !result.data) {
+            return { success: false, data: null, error: result.error }
+        }
+        return { success: true, data: result.data, error: null }
+    }
+
+    // Earlier uploads that look like the file, to warn before uploading it again
+    const findSimilarWallpapers = async (file: File) => {
+        const result = await wallpaperComposable.findSimilarWallpapers(file)
+        if (result.error || !result.data) {
+            return { success: false, data: [] as DuplicateMatch[], error: result.error }
+        }
+        return { success: true, data: result.data, error: null }
+    }
+
+    // Groups of likely duplicates for the admin dashboard
+    const loadDuplicateClusters = async () => {
+        const pairs = await wallpaperComposable.fetchDuplicatePairs()
+        if (pairs.error || !pairs.data) {
+            return { success: false, data: [] as DuplicateCluster[], error: pairs.error }
+        }
+
+        const ids = Array.from(new Set(pairs.data.flatMap(pair => [pair.wallpaper_id, pair.duplicate_id])))
+        const loaded = ids.map(getWallpaperById).filter((wallpaper): wallpaper is Wallpaper => !!wallpaper)
+        const missing = await wallpaperComposable.fetchWallpapersByIds(
+            ids.filter(id => !loaded.some(wallpaper => wallpaper.id === id))
+        )
+        if (missing.error || !missing.data) {
+            return { success: false, data: [] as DuplicateCluster[], error: missing.error }
+        }
+
+        return { success: true, data: duplicateClusters(pairs.data, [...loaded, ...missing.data]), error: null }
+    }
+
     const getRandomWallpaper = (): Wallpaper | null => {
         if (wallpapers.value.length === 0) return null
         const randomIndex = Math.floor(Math.random() * wallpapers.value.length)
@@ -279,12 +524,11 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         searchQuery: readonly(searchQuery),
         selectedTags: readonly(selectedTags),
         sortBy: readonly(sortBy),
+        transitionSettings: readonly(transitionSettings),
         loading: readonly(loading),
         error: readonly(error),
 
         // Getters
-        filteredWallpapers,
-        favoriteWallpapersList,
         allTags,
         hasCurrentWallpaper,
 
@@ -292,13 +536,20 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         initializeStore,
         fetchWallpapers,
         uploadWallpaper,
+        uploadDynamicWallpaper,
         deleteWallpaper,
+        updateWallpaperDisplay,
+        addRendition,
+        removeRendition,
         setCurrentWallpaper,
+        startSession,
+        endSession,
         loadCurrentWallpaperFromStorage,
         addFavorite,
         removeFavorite,
         toggleFavorite,
         isFavorite,
+        setTransitionSettings,
         setSearchQuery,
         setSelectedTags,
         addSelectedTag,
@@ -306,6 +557,9 @@ export const useWallpaperStore = defineStore('wallpaper', () => {
         clearFilters,
         setSortBy,
         getWallpaperById,
+        loadWallpaperById,
+        findSimilarWallpapers,
+        loadDuplicateClusters,
         getRandomWallpaper
     }
 })
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { defineStore } from 'pinia'
+import { ref, readonly, watch } from 'vue'
+import { useUserStore } from './userStore'
+import type { IWidgetInstance, IWidgetSize } from '../types/widgets'
+import { parseWidgetLayout, placeWidget } from '../utils/widgetLayout'
+import type { Viewport } from '../utils/widgetLayout'
+import { debounce } from '../utils/general'
+
+const STORAGE_KEY = 'wallpaperWidgets'
+
+export const useWidgetStore = defineStore('widgets', () => {
+    const userStore = useUserStore()
+
+    // State
+    const widgets = ref<IWidgetInstance[]>([])
+    const isEditing = ref(false)
+
+    // Actions
+    const addWidget = (
+        type: string,
+        size: IWidgetSize,
+        settings: Record<string, unknown>,
+        viewport: Viewport
+    ) => {
+        const widget = placeWidget(type, size, settings, widgets.value, viewport)
+        widgets.value = [...widgets.value, widget]
+        saveLayout()
+        return widget
+    }
+
+    const removeWidget = (id: string) => {
+        widgets.value = widgets.value.filter(w => w.id !== id)
+        saveLayout()
+    }
+
+    // Position and size changes from dragging or resizing
+    const updateWidget = (id: string, updates: Partial<Omit<IWidgetInstance, 'id' | 'type'>>) => {
+        widgets.value = widgets.value.map(w => (w.id === id ? { ...w, ...updates } : w))
+        saveLayout()
+    }
+
+    const updateWidgetSettings = (id: string, settings: Record<string, unknown>) => {
+        widgets.value = widgets.value.map(w =>
+            w.id === id ? { ...w, settings: { ...w.settings, ...settings } } : w
+        )
+        saveLayout()
+    }
+
+    // Bring a widget to the front by moving it to the end of the list
+    const raiseWidget = (id: string) => {
+        const widget = widgets.value.find(w => w.id === id)
+        if (!widget || widgets.value[widgets.value.length - 1] === widget) return
+        widgets.value = [...widgets.value.filter(w => w.id !== id), widget]
+        saveLayout()
+    }
+
+    const setEditing = (editing: boolean) => {
+        isEditing.value = editing
+    }
+
+    // Dragging fires on every pointer move, so only sync to Supabase once it settles
+    const syncLayout = debounce(() => {
+        if (!userStore.isAuthenticated) return
+        userStore.updatePreferences({ widget_layout: widgets.value })
+    }, 1000)
+
+    // Persistence
+    const saveLayout = () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(widgets.value))
+        syncLayout()
+    }
+
+    const loadLayout = () => {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY)
+            if (stored) {
+                widgets.value = parseWidgetLayout(JSON.parse(stored))
+            }
+        } catch (err) {
+            console.error('Failed to load widget layout:', err)
+        }
+    }
+
+    loadLayout()
+
+    // Signed-in users get the layout saved in user_preferences when their account loads
+    let appliedFor: string | null = null
+    watch(() => userStore.preferences, (preferences) => {
+        if (!preferences) {
+            appliedFor = null
+            return
+        }
+        if (preferences.user_id === appliedFor) return
+        appliedFor = preferences.user_id
+        if (preferences.widget_layout) {
+            widgets.value = parseWidgetLayout(preferences.widget_layout)
+        }
+    }, { immediate: true })
+
+    return {
+        // State
+        widgets: readonly(widgets),
+        isEditing: readonly(isEditing),
+
+        // Actions
+        addWidget,
+        removeWidget,
+        updateWidget,
+        updateWidgetSettings,
+        raiseWidget,
+        setEditing,
+        loadLayout
+    }
+})
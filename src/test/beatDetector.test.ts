@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { bandLevels, createBeatDetector, detectBeats, fft, magnitudeSpectrum } from '../utils/beatDetector'
+import { createRandom } from '../utils/particleEngine'
+
+const SAMPLE_RATE = 44100
+
+const sine = (frequency: number, length: number, amplitude: number = 1) =>
+    Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE))
+
+// Four on the floor kick drum over seeded hi-hat noise
+const recordKickLoop = (bpm: number, seconds: number, offset: number = 0) => {
+    const random = createRandom(7)
+    const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE))
+    const interval = 60 / bpm
+
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = (random() * 2 - 1) * 0.05
+    }
+    for (let start = offset; start < seconds; start += interval) {
+        const first = Math.round(start * SAMPLE_RATE)
+        for (let i = 0; i < SAMPLE_RATE * 0.15 && first + i < samples.length; i++) {
+            const t = i / SAMPLE_RATE
+            samples[first + i] += 0.9 * Math.exp(-t * 30) * Math.sin(2 * Math.PI * 60 * t)
+        }
+    }
+    return samples
+}
+
+describe('fft', () => {
+    it('rejects sizes that are not a power of two', () => {
+        expect(() => fft(new Float32Array(6), new Float32Array(6))).toThrow()
+    })
+
+    it('puts a pure tone in its bin', () => {
+        const spectrum = magnitudeSpectrum(sine(SAMPLE_RATE / 1024 * 32, 1024))
+        const peak = spectrum.indexOf(Math.max(...spectrum))
+        expect(peak).toBe(32)
+        expect(spectrum[peak]).toBeCloseTo(1, 1)
+    })
+})
+
+describe('bandLevels', () => {
+    it('separates bass, mid and treble', () => {
+        const levelsOf = (frequency: number) => bandLevels(magnitudeSpectrum(sine(frequency, 2048)), SAMPLE_RATE)
+
+        const low = levelsOf(90)
+        expect(low.bass).toBeGreaterThan(low.mid * 5)
+        expect(low.bass).toBeGreaterThan(low.treble * 5)
+
+        const mid = levelsOf(1000)
+        expect(mid.mid).toBeGreaterThan(mid.bass * 5)
+
+        const high = levelsOf(9000)
+        expect(high.treble).toBeGreaterThan(high.mid * 5)
+    })
+})
+
+describe('detectBeats', () => {
+    it('finds every kick of a 120 BPM loop', () => {
+        const beats = detectBeats(recordKickLoop(120, 4, 0.1), SAMPLE_RATE)
+        const expected = [0.1, 0.6, 1.1, 1.6, 2.1, 2.6, 3.1, 3.6]
+        const frame = 1024 / SAMPLE_RATE
+
+        expect(beats).toHaveLength(expected.length)
+        beats.forEach((time, i) => {
+            expect(Math.abs(time - expected[i])).toBeLessThanOrEqual(frame)
+        })
+    })
+
+    it('stays quiet on noise without a kick', () => {
+        const random = createRandom(3)
+        const noise = Float32Array.from({ length: SAMPLE_RATE * 2 }, () => (random() * 2 - 1) * 0.05)
+        expect(detectBeats(noise, SAMPLE_RATE)).toEqual([])
+    })
+})
+
+describe('createBeatDetector', () => {
+    it('respects sensitivity and the minimum interval', () => {
+        const feed = (sensitivity: number) => {
+            const detector = createBeatDetector({ sensitivity, historySize: 4, minInterval: 0.25 })
+            const energies = [0.1, 0.1, 0.1, 0.1, 0.16, 0.1, 0.1, 0.1, 0.1, 0.3, 0.3]
+            return energies.filter((energy, i) => detector.process(energy, i * 0.1)).length
+        }
+
+        // Only the strong hit counts at low sensitivity, the repeat is inside the interval
+        expect(feed(0)).toBe(1)
+        expect(feed(1)).toBe(2)
+    })
+})
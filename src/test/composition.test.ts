@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import {
+    COMPOSITION_MIME_TYPE,
+    createLayer,
+    findMediaLayer,
+    parseComposition,
+    tintBackground,
+    withMediaSource
+} from '../utils/composition'
+import { resolveMediaKind } from '../utils/mediaTypes'
+import { weatherScene } from '../utils/weatherPresets'
+import type { ITintLayer } from '../types/composition'
+
+describe('parseComposition', () => {
+    it('fills defaults and clamps values', () => {
+        const composition = parseComposition({
+            layers: [
+                { type: 'media', file_url: '/a.jpg', mime_type: 'image/jpeg' },
+                { type: 'tint', color: '#ff0000', opacity: 3, blend_mode: 'luminosity' },
+                { type: 'overlay', overlay: 'snow', intensity: -1, visible: false }
+            ]
+        })
+
+        expect(composition.version).toBe(1)
+        const [media, tint, overlay] = composition.layers
+        expect(media).toMatchObject({ type: 'media', opacity: 1, blend_mode: 'normal', visible: true })
+        expect(tint).toMatchObject({ opacity: 1, blend_mode: 'normal', gradient_to: null, gradient_angle: 180 })
+        expect(overlay).toMatchObject({ overlay: 'snow', intensity: 0, visible: false })
+        expect(new Set(composition.layers.map(layer => layer.id)).size).toBe(3)
+    })
+
+    it('rejects invalid stacks', () => {
+        expect(() => parseComposition(null)).toThrow()
+        expect(() => parseComposition({ layers: [] })).toThrow('at least one layer')
+        expect(() => parseComposition({ layers: [{ type: 'video' }] })).toThrow('unknown type')
+        expect(() => parseComposition({ layers: [{ type: 'overlay', overlay: 'hail' }] })).toThrow('unknown overlay')
+        expect(() => parseComposition({ layers: [createLayer('media'), createLayer('media')] })).toThrow('one media layer')
+    })
+})
+
+describe('withMediaSource', () => {
+    it('points only the media layer at the uploaded file', () => {
+        const composition = { version: 1, layers: [createLayer('media'), createLayer('overlay')] }
+        const uploaded = withMediaSource(composition, 'https://cdn/x.mp4', 'video/mp4')
+        expect(findMediaLayer(uploaded)).toMatchObject({ file_url: 'https://cdn/x.mp4', mime_type: 'video/mp4' })
+        expect(uploaded.layers[1]).toBe(composition.layers[1])
+    })
+})
+
+describe('tintBackground', () => {
+    it('renders a flat color or a gradient', () => {
+        const tint = createLayer('tint') as ITintLayer
+        expect(tintBackground({ ...tint, color: '#000' })).toBe('#000')
+        expect(tintBackground({ ...tint, color: '#000', gradient_to: '#fff', gradient_angle: 90 }))
+            .toBe('linear-gradient(90deg, #000, #fff)')
+    })
+})
+
+describe('composition media kind', () => {
+    it('resolves from the stored mime type', () => {
+        expect(resolveMediaKind({ file_url: '/base.jpg', mime_type: COMPOSITION_MIME_TYPE })?.kind).toBe('composition')
+    })
+})
+
+describe('weatherScene', () => {
+    it('scales particle count and spawn rate with intensity', () => {
+        const full = weatherScene('rain', 1)
+        const light = weatherScene('rain', 0.25)
+        expect(light.particleCount).toBe(Math.round(full.particleCount * 0.25))
+        expect(light.emitters[0].rate).toBeCloseTo(full.emitters[0].rate * 0.25)
+        expect(full.particleStyle).toBe('streak')
+        expect(weatherScene('snow', 1).particleStyle).toBe('dot')
+    })
+})
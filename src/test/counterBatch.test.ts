@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createCounterBatch } from '../utils/counterBatch'
+
+describe('createCounterBatch', () => {
+    beforeEach(() => {
+        vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('sends one tally once increments stop arriving', () => {
+        const send = vi.fn()
+        const batch = createCounterBatch(send, 1000)
+
+        batch.add('a')
+        vi.advanceTimersByTime(600)
+        batch.add('a')
+        batch.add('b', 3)
+        vi.advanceTimersByTime(600)
+        expect(send).not.toHaveBeenCalled()
+
+        vi.advanceTimersByTime(400)
+        expect(send).toHaveBeenCalledOnce()
+        expect(send).toHaveBeenCalledWith({ a: 2, b: 3 })
+    })
+
+    it('starts a fresh tally after sending', () => {
+        const send = vi.fn()
+        const batch = createCounterBatch(send, 1000)
+
+        batch.add('a')
+        vi.advanceTimersByTime(1000)
+        batch.add('a')
+        vi.advanceTimersByTime(1000)
+        expect(send).toHaveBeenNthCalledWith(2, { a: 1 })
+    })
+
+    it('flushes pending counts immediately and skips empty flushes', () => {
+        const send = vi.fn()
+        const batch = createCounterBatch(send, 1000)
+
+        batch.flush()
+        expect(send).not.toHaveBeenCalled()
+
+        batch.add('a')
+        batch.flush()
+        expect(send).toHaveBeenCalledWith({ a: 1 })
+
+        vi.advanceTimersByTime(1000)
+        expect(send).toHaveBeenCalledOnce()
+    })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import {
+    DEFAULT_DISPLAY_SETTINGS,
+    combineDisplayPatches,
+    kenBurnsStyle,
+    mediaStyle,
+    resolveDisplaySettings
+} from '../utils/displaySettings'
+
+describe('resolveDisplaySettings', () => {
+    it('returns the defaults when nothing is set', () => {
+        expect(resolveDisplaySettings(null, undefined)).toEqual(DEFAULT_DISPLAY_SETTINGS)
+    })
+
+    it('lets later patches win', () => {
+        const settings = resolveDisplaySettings(
+            { fit: 'contain', focal_x: 0.2 },
+            { fit: 'tile' },
+            { focal_x: 0.8, ken_burns: { enabled: true } }
+        )
+        expect(settings.fit).toBe('tile')
+        expect(settings.focal_x).toBe(0.8)
+        expect(settings.ken_burns).toEqual({ ...DEFAULT_DISPLAY_SETTINGS.ken_burns, enabled: true })
+    })
+
+    it('clamps out of range values and ignores unknown fits', () => {
+        const settings = resolveDisplaySettings({
+            fit: 'stretch' as never,
+            focal_y: 4,
+            ken_burns: { zoom: 9, duration: 1 }
+        })
+        expect(settings.fit).toBe('cover')
+        expect(settings.focal_y).toBe(1)
+        expect(settings.ken_burns.zoom).toBe(2)
+        expect(settings.ken_burns.duration).toBe(5)
+    })
+})
+
+describe('combineDisplayPatches', () => {
+    it('keeps nested Ken Burns fields from both patches', () => {
+        const combined = combineDisplayPatches({ ken_burns: { zoom: 1.3 } }, { ken_burns: { enabled: true } })
+        expect(combined.ken_burns).toEqual({ zoom: 1.3, enabled: true })
+    })
+})
+
+describe('styles', () => {
+    it('positions media at the focal point', () => {
+        const style = mediaStyle(resolveDisplaySettings({ fit: 'center', focal_x: 0.25, focal_y: 1 }))
+        expect(style).toEqual({ objectFit: 'none', objectPosition: '25% 100%' })
+    })
+
+    it('only animates when Ken Burns is enabled', () => {
+        expect(kenBurnsStyle(DEFAULT_DISPLAY_SETTINGS)).toEqual({})
+        const style = kenBurnsStyle(resolveDisplaySettings({ ken_burns: { enabled: true, duration: 20 } }))
+        expect(style.animation).toContain('ken-burns 20s')
+    })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { differenceHash, frameSetDistance, hammingDistance } from '../utils/perceptualHash'
+import { clusterPairs, duplicateClusters, rankDuplicates } from '../utils/duplicates'
+import type { Wallpaper } from '../composables/useWallpaper'
+
+// 9×8 RGBA gray pixels from a brightness function
+const sample = (brightness: (x: number, y: number) => number) => {
+    const pixels: number[] = []
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 9; x++) {
+            const value = brightness(x, y)
+            pixels.push(value, value, value, 255)
+        }
+    }
+    return pixels
+}
+
+const wallpaper = (id: string, fields: Partial<Wallpaper> = {}): Wallpaper => ({
+    id,
+    title: id,
+    file_url: `https://example.com/${id}.jpg`,
+    uploader_id: 'user',
+    tags: [],
+    created_at: '2024-01-01T00:00:00Z',
+    ...fields
+})
+
+describe('differenceHash', () => {
+    it('sets a bit where brightness rises to the right', () => {
+        expect(differenceHash(sample(x => x * 20))).toBe('ffffffffffffffff')
+        expect(differenceHash(sample(x => 200 - x * 20))).toBe('0000000000000000')
+        expect(differenceHash(sample((x, y) => (y % 2 === 0 ? x * 20 : 200 - x * 20)))).toBe('ff00ff00ff00ff00')
+    })
+
+    it('ignores uniform brightness and contrast changes', () => {
+        const picture = (x: number, y: number) => (x * 7 + y * 13) % 50
+        const brighter = (x: number, y: number) => picture(x, y) * 2 + 40
+        expect(differenceHash(sample(brighter))).toBe(differenceHash(sample(picture)))
+    })
+})
+
+describe('hammingDistance', () => {
+    it('counts differing bits', () => {
+        expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0)
+        expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4)
+        expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64)
+    })
+})
+
+describe('frameSetDistance', () => {
+    it('is the worst best-match in either direction', () => {
+        const a = ['0000000000000000', '00000000000000ff']
+        expect(frameSetDistance(a, ['0000000000000001'])).toBe(7)
+        expect(frameSetDistance(a, a)).toBe(0)
+    })
+
+    it('is null without frames', () => {
+        expect(frameSetDistance([], ['0000000000000000'])).toBeNull()
+    })
+})
+
+describe('rankDuplicates', () => {
+    const fingerprint = { content_hash: 'abc', perceptual_hashes: ['0000000000000000'] }
+
+    it('puts exact copies first and drops distant pictures', () => {
+        const candidates = [
+            wallpaper('near', { perceptual_hashes: ['0000000000000003'] }),
+            wallpaper('far', { perceptual_hashes: ['ffffffffffffffff'] }),
+            wallpaper('copy', { content_hash: 'abc', perceptual_hashes: ['00000000000000ff'] }),
+            wallpaper('unhashed')
+        ]
+        expect(rankDuplicates(fingerprint, candidates).map(match => [match.wallpaper.id, match.exact, match.distance]))
+            .toEqual([['copy', true, 0], ['near', false, 2]])
+    })
+})
+
+describe('clusterPairs', () => {
+    it('joins pairs that share a wallpaper', () => {
+        const clusters = clusterPairs([
+            { wallpaper_id: 'a', duplicate_id: 'b', distance: 1 },
+            { wallpaper_id: 'c', duplicate_id: 'b', distance: 2 },
+            { wallpaper_id: 'd', duplicate_id: 'e', distance: 0 }
+        ])
+        expect(clusters.map(ids => [...ids].sort())).toEqual([['a', 'b', 'c'], ['d', 'e']])
+    })
+})
+
+describe('duplicateClusters', () => {
+    it('keeps the earliest upload as the original', () => {
+        const wallpapers = [
+            wallpaper('b', { created_at: '2024-02-01T00:00:00Z', perceptual_hashes: ['0000000000000001'] }),
+            wallpaper('a', { created_at: '2024-01-01T00:00:00Z', perceptual_hashes: ['0000000000000000'] })
+        ]
+        const [cluster] = duplicateClusters([{ wallpaper_id: 'a', duplicate_id: 'b', distance: 1 }], wallpapers)
+        expect(cluster.original.id).toBe('a')
+        expect(cluster.duplicates.map(match => [match.wallpaper.id, match.distance])).toEqual([['b', 1]])
+    })
+
+    it('skips clusters whose wallpapers are not loaded', () => {
+        expect(duplicateClusters([{ wallpaper_id: 'a', duplicate_id: 'x', distance: 1 }], [wallpaper('a')])).toEqual([])
+    })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import type { IDynamicSet } from '../types/dynamic'
+import {
+    createFrames,
+    cyclicBlend,
+    dynamicBlend,
+    formatTimeOfDay,
+    parseDynamicSet,
+    parseTimeOfDay
+} from '../utils/dynamicWallpaper'
+import { fromSolarCycle, solarCycle, sunPosition } from '../utils/solar'
+
+const frame = (id: string, time: number) => ({
+    id,
+    file_url: `/${id}.jpg`,
+    mime_type: 'image/jpeg',
+    time,
+    elevation: 0,
+    rising: true
+})
+
+const timeSet: IDynamicSet = {
+    version: 1,
+    mode: 'time',
+    latitude: null,
+    longitude: null,
+    frames: [frame('morning', 6 * 60), frame('noon', 12 * 60), frame('night', 20 * 60)]
+}
+
+describe('cyclicBlend', () => {
+    it('blends between the frames either side of now', () => {
+        expect(cyclicBlend([0, 100], 25, 200)).toEqual({ from: 0, to: 1, mix: 0.25 })
+    })
+
+    it('wraps around the end of the cycle', () => {
+        const blend = cyclicBlend([300, 100], 50, 400)
+        expect(blend?.from).toBe(0)
+        expect(blend?.to).toBe(1)
+        expect(blend?.mix).toBeCloseTo(150 / 200)
+    })
+
+    it('shows a single frame without blending', () => {
+        expect(cyclicBlend([42], 10, 100)).toEqual({ from: 0, to: 0, mix: 0 })
+        expect(cyclicBlend([], 10, 100)).toBeNull()
+    })
+})
+
+describe('dynamicBlend', () => {
+    it('follows the local clock in time mode', () => {
+        const blend = dynamicBlend(timeSet, new Date(2024, 5, 1, 9, 0))
+        expect(blend?.from.id).toBe('morning')
+        expect(blend?.to.id).toBe('noon')
+        expect(blend?.mix).toBeCloseTo(0.5)
+    })
+
+    it('blends night back into morning after midnight', () => {
+        const blend = dynamicBlend(timeSet, new Date(2024, 5, 1, 1, 0))
+        expect(blend?.from.id).toBe('night')
+        expect(blend?.to.id).toBe('morning')
+        expect(blend?.mix).toBeCloseTo(5 / 10)
+    })
+})
+
+describe('parseDynamicSet', () => {
+    it('normalizes frame values', () => {
+        const set = parseDynamicSet({
+            mode: 'time',
+            frames: [{ file_url: '/a.jpg', time: 1500, elevation: 120 }]
+        })
+        expect(set.frames[0].time).toBe(60)
+        expect(set.frames[0].elevation).toBe(90)
+        expect(set.frames[0].rising).toBe(true)
+        expect(set.latitude).toBeNull()
+    })
+
+    it('rejects sets it cannot play', () => {
+        expect(() => parseDynamicSet({ mode: 'weekly', frames: [{}] })).toThrow('Unknown dynamic mode')
+        expect(() => parseDynamicSet({ mode: 'time', frames: [] })).toThrow('at least one frame')
+        expect(() => parseDynamicSet({ mode: 'solar', frames: [{}] })).toThrow('latitude and longitude')
+    })
+})
+
+describe('solar position', () => {
+    it('puts the equinox sun at 90° minus the latitude around noon', () => {
+        const noon = sunPosition(new Date(Date.UTC(2024, 2, 20, 12, 0)), 51.48, 0)
+        expect(noon.elevation).toBeGreaterThan(37.5)
+        expect(noon.elevation).toBeLessThan(39.5)
+        // Solar noon in Greenwich is a few minutes after 12:00 UTC in March
+        expect(noon.rising).toBe(true)
+
+        const midnight = sunPosition(new Date(Date.UTC(2024, 2, 20, 0, 0)), 51.48, 0)
+        expect(midnight.elevation).toBeLessThan(-37)
+    })
+
+    it('unrolls elevation into a day cycle and back', () => {
+        expect(solarCycle(0, true)).toBe(90)
+        expect(solarCycle(0, false)).toBe(270)
+        expect(fromSolarCycle(270)).toEqual({ elevation: 0, rising: false })
+        expect(fromSolarCycle(solarCycle(30, true))).toEqual({ elevation: 30, rising: true })
+    })
+})
+
+describe('time helpers', () => {
+    it('formats and parses times of day', () => {
+        expect(formatTimeOfDay(6 * 60 + 5)).toBe('06:05')
+        expect(formatTimeOfDay(-30)).toBe('23:30')
+        expect(parseTimeOfDay('18:45')).toBe(18 * 60 + 45)
+        expect(parseTimeOfDay('25:00')).toBeNull()
+    })
+
+    it('spreads new frames over the day from dawn', () => {
+        const frames = createFrames([
+            { file_url: '', mime_type: 'image/png' },
+            { file_url: '', mime_type: 'image/png' }
+        ])
+        expect(frames.map(f => f.time)).toEqual([360, 1080])
+        expect(frames[0]).toMatchObject({ elevation: 0, rising: true })
+        expect(frames[1]).toMatchObject({ elevation: 0, rising: false })
+    })
+})
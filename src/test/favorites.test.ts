@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { applyFavoriteChange, isUploadedWallpaperId, parseFavoriteIds } from '../utils/favorites'
+
+describe('applyFavoriteChange', () => {
+    it('adds and removes ids', () => {
+        expect(applyFavoriteChange(['a'], 'b', true)).toEqual(['a', 'b'])
+        expect(applyFavoriteChange(['a', 'b'], 'a', false)).toEqual(['b'])
+    })
+
+    it('ignores repeated changes, e.g. a realtime echo of our own toggle', () => {
+        const ids = ['a', 'b']
+        expect(applyFavoriteChange(ids, 'a', true)).toBe(ids)
+        expect(applyFavoriteChange(ids, 'c', false)).toBe(ids)
+    })
+})
+
+describe('parseFavoriteIds', () => {
+    it('keeps unique string ids', () => {
+        expect(parseFavoriteIds(['a', 'b', 'a', '', 3, null])).toEqual(['a', 'b'])
+    })
+
+    it('rejects anything but an array', () => {
+        expect(parseFavoriteIds({ a: true })).toEqual([])
+        expect(parseFavoriteIds(null)).toEqual([])
+    })
+})
+
+describe('isUploadedWallpaperId', () => {
+    it('accepts database ids only', () => {
+        expect(isUploadedWallpaperId('3f2b8c1e-9d4a-4e6f-8a7b-1c2d3e4f5a6b')).toBe(true)
+        expect(isUploadedWallpaperId('245245234')).toBe(false)
+        expect(isUploadedWallpaperId('')).toBe(false)
+    })
+})
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { computeGridLayout, itemPosition } from '../utils/virtualGrid'
+import { cursorFilter, cursorOf, escapeLike, mergePage } from '../utils/pagination'
+
+const grid = {
+    containerWidth: 1000,
+    viewportHeight: 600,
+    scrollTop: 0,
+    itemCount: 100,
+    minColumnWidth: 220,
+    aspectRatio: 2,
+    gap: 10,
+    overscanRows: 1
+}
+
+describe('computeGridLayout', () => {
+    it('fits as many columns as the minimum width allows', () => {
+        const layout = computeGridLayout(grid)
+        expect(layout.columns).toBe(4)
+        expect(layout.itemWidth).toBe(242.5)
+        expect(layout.rowHeight).toBeCloseTo(131.25)
+        expect(layout.totalHeight).toBeCloseTo(25 * 131.25 - 10)
+    })
+
+    it('only renders the rows around the viewport', () => {
+        const top = computeGridLayout(grid)
+        expect(top.startIndex).toBe(0)
+        expect(top.endIndex).toBe(6 * 4)
+
+        const scrolled = computeGridLayout({ ...grid, scrollTop: 1000 })
+        expect(scrolled.startIndex).toBe(6 * 4)
+        expect(scrolled.endIndex).toBe(14 * 4)
+    })
+
+    it('handles an empty or narrow container', () => {
+        expect(computeGridLayout({ ...grid, itemCount: 0 }).totalHeight).toBe(0)
+        expect(computeGridLayout({ ...grid, containerWidth: 100 }).columns).toBe(1)
+        expect(computeGridLayout({ ...grid, containerWidth: 0 }).endIndex).toBe(0)
+    })
+
+    it('positions items row by row', () => {
+        const layout = computeGridLayout(grid)
+        expect(itemPosition(5, layout, 10)).toEqual({ left: 252.5, top: layout.rowHeight })
+    })
+})
+
+describe('pagination helpers', () => {
+    it('builds a keyset filter that breaks timestamp ties by id', () => {
+        const cursor = cursorOf({ created_at: '2024-01-01T00:00:00+00:00', id: 'abc' }, 'created_at')
+        expect(cursorFilter(cursor, 'created_at', false)).toBe(
+            'created_at.lt."2024-01-01T00:00:00+00:00",and(created_at.eq."2024-01-01T00:00:00+00:00",id.lt.abc)'
+        )
+        expect(cursorFilter(cursor, 'created_at', true)).toContain('id.gt.abc')
+    })
+
+    it('leaves numeric sort values unquoted', () => {
+        const cursor = cursorOf({ trending_score: 38271.25, id: 'abc' }, 'trending_score')
+        expect(cursorFilter(cursor, 'trending_score', false)).toBe(
+            'trending_score.lt.38271.25,and(trending_score.eq.38271.25,id.lt.abc)'
+        )
+    })
+
+    it('merges pages without duplicates', () => {
+        const merged = mergePage([{ id: 'a' }, { id: 'b' }], [{ id: 'b' }, { id: 'c' }])
+        expect(merged.map(item => item.id)).toEqual(['a', 'b', 'c'])
+    })
+
+    it('escapes LIKE wildcards', () => {
+        expect(escapeLike('100%_off')).toBe('100\\%\\_off')
+    })
+})
@@ -0,0 +1,55 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { stripImageMetadata } from '../utils/imageMetadata'
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0))
+
+const bytesOf = async (file: File) => [...new Uint8Array(await file.arrayBuffer())]
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+const uint32LE = (value: number) => uint32(value).reverse()
+
+const pngChunk = (type: string, data: number[]) => [...uint32(data.length), ...ascii(type), ...data, 0, 0, 0, 0]
+const riffChunk = (type: string, data: number[]) => [...ascii(type), ...uint32LE(data.length), ...data]
+
+describe('stripImageMetadata', () => {
+    it('drops EXIF and comments from a JPEG and keeps the image data', async () => {
+        const jfif = [0xff, 0xe0, 0, 7, ...ascii('JFIF\0')]
+        const exif = [0xff, 0xe1, 0, 8, ...ascii('Exif'), 0, 0]
+        const comment = [0xff, 0xfe, 0, 4, 1, 2]
+        const scan = [0xff, 0xda, 0, 2, 9, 9, 0xff, 0xd9]
+        const file = new File([new Uint8Array([0xff, 0xd8, ...jfif, ...exif, ...comment, ...scan])], 'photo.jpg')
+
+        expect(await bytesOf((await stripImageMetadata(file))!)).toEqual([0xff, 0xd8, ...jfif, ...scan])
+    })
+
+    it('drops text and EXIF chunks from a PNG', async () => {
+        const header = pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0])
+        const data = pngChunk('IDAT', [1, 2, 3])
+        const end = pngChunk('IEND', [])
+        const png = [0x89, ...ascii('PNG\r\n\x1a\n')]
+        const file = new File(
+            [new Uint8Array([...png, ...header, ...pngChunk('tEXt', ascii('GPS\0here')), ...pngChunk('eXIf', [1]), ...data, ...end])],
+            'photo.png'
+        )
+
+        expect(await bytesOf((await stripImageMetadata(file))!)).toEqual([...png, ...header, ...data, ...end])
+    })
+
+    it('drops EXIF from a WebP, clears its flag and fixes the container size', async () => {
+        const image = riffChunk('VP8 ', [1, 2])
+        const webp = (chunks: number[]) => [...ascii('RIFF'), ...uint32LE(4 + chunks.length), ...ascii('WEBP'), ...chunks]
+        const file = new File(
+            [new Uint8Array(webp([...riffChunk('VP8X', [0x08, 0, 0, 0, 0, 0, 0, 0, 0, 0]), ...image, ...riffChunk('EXIF', [7, 7])]))],
+            'photo.webp'
+        )
+
+        expect(await bytesOf((await stripImageMetadata(file))!))
+            .toEqual(webp([...riffChunk('VP8X', [0, 0, 0, 0, 0, 0, 0, 0, 0, 0]), ...image]))
+    })
+
+    it('gives up on formats and files it cannot take apart', async () => {
+        expect(await stripImageMetadata(new File([new Uint8Array([0, 0, 0, 0x1c, ...ascii('ftypavif')])], 'a.avif'))).toBeNull()
+        expect(await stripImageMetadata(new File([new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff])], 'cut.jpg'))).toBeNull()
+    })
+})
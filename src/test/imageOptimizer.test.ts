@@ -0,0 +1,66 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { canOptimizeFile, fitWithin, optimizeImage, optimizedFileName, sizeSaving } from '../utils/imageOptimizer'
+
+const fileOf = (bytes: number[], name: string) => new File([new Uint8Array(bytes)], name)
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0))
+
+describe('fitWithin', () => {
+    it('scales the longest side down to the limit', () => {
+        expect(fitWithin(6000, 4000, 3840)).toEqual({ width: 3840, height: 2560 })
+        expect(fitWithin(3000, 6000, 1920)).toEqual({ width: 960, height: 1920 })
+    })
+
+    it('never scales up', () => {
+        expect(fitWithin(1920, 1080, 3840)).toEqual({ width: 1920, height: 1080 })
+    })
+})
+
+describe('optimizedFileName', () => {
+    it('swaps the extension for the new format', () => {
+        expect(optimizedFileName('beach.photo.JPG', 'image/webp')).toBe('beach.photo.webp')
+        expect(optimizedFileName('mountains', 'image/avif')).toBe('mountains.avif')
+    })
+})
+
+describe('sizeSaving', () => {
+    it('reports the share saved, negative when the file grew', () => {
+        expect(sizeSaving(1000, 250)).toBe(0.75)
+        expect(sizeSaving(1000, 1200)).toBeCloseTo(-0.2)
+        expect(sizeSaving(0, 10)).toBe(0)
+    })
+})
+
+describe('canOptimizeFile', () => {
+    it('takes still photos and leaves animations and video alone', async () => {
+        expect(await canOptimizeFile(fileOf([0xff, 0xd8, 0xff, 0xe0, 0, 0, 0, 0, 0, 0, 0, 0], 'a.jpg'))).toBe(true)
+        expect(await canOptimizeFile(fileOf([...ascii('GIF89a'), 0, 0, ...ascii('NETSCAPE2.0')], 'a.gif'))).toBe(false)
+        expect(await canOptimizeFile(fileOf([0x1a, 0x45, 0xdf, 0xa3, ...ascii('webm')], 'a.webm'))).toBe(false)
+    })
+})
+
+describe('optimizeImage', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('rejects instead of waiting forever when the worker fails', async () => {
+        // A worker whose script fails to load reports an error event and never answers
+        class BrokenWorker {
+            onmessage: ((event: MessageEvent) => void) | null = null
+            onerror: ((event: { message: string, preventDefault: () => void }) => void) | null = null
+            onmessageerror: (() => void) | null = null
+            postMessage() {
+                setTimeout(() => this.onerror?.({ message: 'Failed to load worker', preventDefault: () => {} }))
+            }
+            terminate() {}
+        }
+        vi.stubGlobal('OffscreenCanvas', class {})
+        vi.stubGlobal('Worker', BrokenWorker)
+
+        const file = fileOf([0xff, 0xd8, 0xff, 0xe0], 'photo.jpg')
+        const options = { maxEdge: 1920, format: 'image/webp' as const, quality: 0.8 }
+        await expect(optimizeImage(file, options)).rejects.toThrow('Failed to load worker')
+    })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { parseHostCommand, parseLiveParams } from '../utils/liveParams'
+
+describe('parseLiveParams', () => {
+    it('defaults to a muted wallpaper without music or widgets', () => {
+        expect(parseLiveParams({})).toEqual({
+            wallpaperId: null,
+            tag: null,
+            intervalMinutes: null,
+            fit: null,
+            muted: true,
+            autoplayMusic: false,
+            widgets: false,
+            origin: null
+        })
+    })
+
+    it('reads the wallpaper, rotation and display options', () => {
+        const params = parseLiveParams({
+            wallpaper: 'abc',
+            tag: ' nature ',
+            interval: '5',
+            fit: 'contain',
+            mute: '0',
+            music: '',
+            widgets: ['true', 'false']
+        })
+        expect(params.wallpaperId).toBe('abc')
+        expect(params.tag).toBe('nature')
+        expect(params.intervalMinutes).toBe(5)
+        expect(params.fit).toBe('contain')
+        expect(params.muted).toBe(false)
+        expect(params.autoplayMusic).toBe(true)
+        expect(params.widgets).toBe(true)
+    })
+
+    it('ignores invalid values', () => {
+        const params = parseLiveParams({ fit: 'stretch', interval: '-2', wallpaper: '  ' })
+        expect(params.fit).toBeNull()
+        expect(params.intervalMinutes).toBeNull()
+        expect(params.wallpaperId).toBeNull()
+    })
+})
+
+describe('parseHostCommand', () => {
+    it('accepts known commands', () => {
+        expect(parseHostCommand({ type: 'wallpaper:set', id: 'abc' })).toEqual({ type: 'wallpaper:set', id: 'abc' })
+        expect(parseHostCommand({ type: 'wallpaper:pause' })).toEqual({ type: 'wallpaper:pause' })
+        expect(parseHostCommand({ type: 'wallpaper:mute', muted: false })).toEqual({ type: 'wallpaper:mute', muted: false })
+    })
+
+    it('ignores unrelated or malformed messages', () => {
+        expect(parseHostCommand('wallpaper:next')).toBeNull()
+        expect(parseHostCommand({ type: 'wallpaper:set' })).toBeNull()
+        expect(parseHostCommand({ type: 'webpackOk' })).toBeNull()
+    })
+})
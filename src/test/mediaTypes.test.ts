@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+    getExtension,
+    registerMediaKind,
+    resolveMediaKind,
+    sniffMimeType
+} from '../utils/mediaTypes'
+
+const bytes = (...parts: (number[] | string)[]) => {
+    const values: number[] = []
+    for (const part of parts) {
+        if (typeof part === 'string') {
+            for (const char of part) values.push(char.charCodeAt(0))
+        } else {
+            values.push(...part)
+        }
+    }
+    return new Uint8Array(values)
+}
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+
+const pngChunk = (type: string, length: number = 0) =>
+    bytes(uint32(length), type, new Array(length).fill(0), [0, 0, 0, 0])
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+describe('sniffMimeType', () => {
+    it('detects still and animated PNG', () => {
+        const still = bytes(PNG_SIGNATURE, [...pngChunk('IHDR', 13)], [...pngChunk('IDAT', 4)])
+        const animated = bytes(PNG_SIGNATURE, [...pngChunk('IHDR', 13)], [...pngChunk('acTL', 8)], [...pngChunk('IDAT', 4)])
+        expect(sniffMimeType(still)).toEqual({ mimeType: 'image/png', animated: false })
+        expect(sniffMimeType(animated)).toEqual({ mimeType: 'image/apng', animated: true })
+    })
+
+    it('detects animated WebP from the VP8X flags', () => {
+        const header = (flags: number) => bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8X', [10, 0, 0, 0, flags, 0, 0, 0])
+        expect(sniffMimeType(header(0x02))).toEqual({ mimeType: 'image/webp', animated: true })
+        expect(sniffMimeType(header(0x00))).toEqual({ mimeType: 'image/webp', animated: false })
+    })
+
+    it('tells ISO media brands apart', () => {
+        const ftyp = (major: string, ...compatible: string[]) =>
+            bytes(uint32(16 + compatible.length * 4), 'ftyp', major, [0, 0, 0, 0], compatible.join(''))
+        expect(sniffMimeType(ftyp('isom', 'isom', 'mp42'))?.mimeType).toBe('video/mp4')
+        expect(sniffMimeType(ftyp('qt  '))?.mimeType).toBe('video/quicktime')
+        expect(sniffMimeType(ftyp('mif1', 'avif'))?.mimeType).toBe('image/avif')
+        expect(sniffMimeType(ftyp('avis', 'avif'))).toEqual({ mimeType: 'image/avif', animated: true })
+    })
+
+    it('detects common image, video and audio signatures', () => {
+        expect(sniffMimeType(bytes([0xff, 0xd8, 0xff, 0xe0]))?.mimeType).toBe('image/jpeg')
+        expect(sniffMimeType(bytes('GIF89a', [0, 0]))?.mimeType).toBe('image/gif')
+        expect(sniffMimeType(bytes([0x1a, 0x45, 0xdf, 0xa3], 'B\x82webm'))?.mimeType).toBe('video/webm')
+        expect(sniffMimeType(bytes('ID3', [4, 0]))?.mimeType).toBe('audio/mpeg')
+        expect(sniffMimeType(bytes('OggS', [0, 2], 'vorbis'))?.mimeType).toBe('audio/ogg')
+    })
+
+    it('detects JSON scene files and rejects unknown data', () => {
+        expect(sniffMimeType(bytes([0xef, 0xbb, 0xbf], '\n  {"emitters": []}'))?.mimeType).toBe('application/json')
+        expect(sniffMimeType(bytes('hello world'))).toBeNull()
+    })
+})
+
+describe('resolveMediaKind', () => {
+    it('prefers the stored mime type over the URL', () => {
+        const kind = resolveMediaKind({ file_url: 'https://cdn/x/file.jpg', mime_type: 'video/quicktime' })
+        expect(kind?.kind).toBe('video')
+    })
+
+    it('falls back to the extension and ignores query strings', () => {
+        expect(resolveMediaKind({ file_url: '/clip.MOV?token=abc' })?.kind).toBe('video')
+        expect(resolveMediaKind({ file_url: '/still.avif#x' })?.kind).toBe('image')
+        expect(resolveMediaKind({ file_url: '/scene.json' })?.kind).toBe('particles')
+        expect(resolveMediaKind({ file_url: '/unknown' })).toBeNull()
+    })
+
+    it('resolves kinds registered later', () => {
+        registerMediaKind({ kind: 'shader', mimeTypes: ['text/x-glsl'], extensions: ['glsl'] })
+        expect(resolveMediaKind({ file_url: '/a.glsl' })?.kind).toBe('shader')
+        expect(resolveMediaKind({ file_url: '/a', mime_type: 'text/x-glsl; charset=utf-8' })?.kind).toBe('shader')
+    })
+})
+
+describe('getExtension', () => {
+    it('handles dots in directories and missing extensions', () => {
+        expect(getExtension('https://x.io/v1.2/file')).toBe('')
+        expect(getExtension('https://x.io/a/b.Png?x=1.2')).toBe('png')
+    })
+})
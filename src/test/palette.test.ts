@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import {
+    contrastRatio,
+    extractPalette,
+    panelTheme,
+    parsePalette,
+    readableTextColor
+} from '../utils/palette'
+
+// RGBA pixel data with `count` pixels of each color
+const pixels = (...colors: [number, number, number, number][]) =>
+    colors.flatMap(([r, g, b, count]) => Array.from({ length: count }, () => [r, g, b, 255]).flat())
+
+describe('extractPalette', () => {
+    it('finds the dominant, accent and average colors', () => {
+        const palette = extractPalette(pixels([20, 20, 30, 60], [230, 40, 40, 20], [40, 40, 50, 20]))
+        expect(palette?.dominant).toBe('#14141e')
+        expect(palette?.accent).toBe('#e62828')
+        expect(palette?.average).toBe('#421c24')
+    })
+
+    it('ignores transparent pixels', () => {
+        expect(extractPalette([255, 255, 255, 0, 255, 255, 255, 10])).toBeNull()
+    })
+
+    it('falls back to the dominant color when nothing stands out', () => {
+        const palette = extractPalette(pixels([100, 100, 100, 10], [104, 104, 104, 5]))
+        expect(palette?.accent).toBe(palette?.dominant)
+    })
+})
+
+describe('contrast', () => {
+    it('matches the WCAG extremes', () => {
+        expect(contrastRatio('#ffffff', '#000000')).toBeCloseTo(21)
+        expect(contrastRatio('#777777', '#777777')).toBeCloseTo(1)
+    })
+
+    it('picks dark text on light backgrounds', () => {
+        expect(readableTextColor('#f5f5dc')).toBe('#111827')
+        expect(readableTextColor('#1e3a8a')).toBe('#ffffff')
+    })
+})
+
+describe('panelTheme', () => {
+    it('keeps the original frosted look on dark wallpapers', () => {
+        const theme = panelTheme({ dominant: '#0b1020', accent: '#3b82f6', average: '#101522' })
+        expect(theme).toEqual({
+            background: 'rgba(255, 255, 255, 0.1)',
+            border: 'rgba(255, 255, 255, 0.2)',
+            text: '#ffffff'
+        })
+    })
+
+    it('switches to light glass with dark text on bright wallpapers', () => {
+        const theme = panelTheme({ dominant: '#f8fafc', accent: '#f59e0b', average: '#eef2f7' })
+        expect(theme.text).toBe('#111827')
+        expect(theme.background).toBe('rgba(255, 255, 255, 0.35)')
+    })
+
+    it('darkens the glass until white text is readable on mid tones', () => {
+        const theme = panelTheme({ dominant: '#5a7a95', accent: '#f59e0b', average: '#5a7a95' })
+        expect(theme.text).toBe('#ffffff')
+        expect(theme.background).toMatch(/^rgba\(0, 0, 0, /)
+    })
+})
+
+describe('parsePalette', () => {
+    it('only accepts hex colors', () => {
+        expect(parsePalette({ dominant: '#000000', accent: '#ffffff', average: '#777777' })).not.toBeNull()
+        expect(parsePalette({ dominant: 'red', accent: '#ffffff', average: '#777777' })).toBeNull()
+        expect(parsePalette(null)).toBeNull()
+    })
+})
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest'
+import {
+    FIXED_STEP,
+    createParticleEngine,
+    createRandom,
+    parseParticleScene
+} from '../utils/particleEngine'
+
+const scene = parseParticleScene({
+    particleCount: 50,
+    gravity: 100,
+    wind: 10,
+    emitters: [
+        {
+            shape: 'rect',
+            x: 0,
+            y: 0,
+            width: 1,
+            height: 0.5,
+            rate: 120,
+            lifetime: [1, 2],
+            speed: [10, 40],
+            colors: ['#ff0000', '#00ff00']
+        }
+    ]
+})
+
+const runSteps = (seed: number, steps: number) => {
+    const engine = createParticleEngine(scene, { width: 800, height: 600, seed })
+    for (let i = 0; i < steps; i++) engine.step()
+    return engine
+}
+
+describe('parseParticleScene', () => {
+    it('fills in defaults for missing fields', () => {
+        const parsed = parseParticleScene({ emitters: [{}] })
+        expect(parsed.gravity).toBe(0)
+        expect(parsed.particleCount).toBe(300)
+        expect(parsed.emitters[0].shape).toBe('point')
+        expect(parsed.emitters[0].colors).toEqual(['#ffffff'])
+    })
+
+    it('normalizes scalar and reversed ranges', () => {
+        const parsed = parseParticleScene({ emitters: [{ size: 4, speed: [50, 10] }] })
+        expect(parsed.emitters[0].size).toEqual([4, 4])
+        expect(parsed.emitters[0].speed).toEqual([10, 50])
+    })
+
+    it('rejects scenes without emitters or with unknown shapes', () => {
+        expect(() => parseParticleScene({ emitters: [] })).toThrow()
+        expect(() => parseParticleScene({ emitters: [{ shape: 'star' }] })).toThrow(/star/)
+    })
+})
+
+describe('createParticleEngine', () => {
+    it('produces identical output for the same seed', () => {
+        const a = runSteps(42, 90)
+        const b = runSteps(42, 90)
+        expect(a.particles.length).toBeGreaterThan(0)
+        expect(a.particles).toEqual(b.particles)
+    })
+
+    it('produces different output for different seeds', () => {
+        expect(runSteps(1, 30).particles).not.toEqual(runSteps(2, 30).particles)
+    })
+
+    it('never exceeds the scene particle count', () => {
+        const engine = runSteps(7, 600)
+        expect(engine.particles.length).toBeLessThanOrEqual(scene.particleCount)
+    })
+
+    it('spawns particles at the emitter rate', () => {
+        const engine = runSteps(3, 10)
+        expect(engine.particles.length).toBe(Math.floor(120 * FIXED_STEP * 10 + 1e-9))
+    })
+
+    it('applies gravity and wind to velocity', () => {
+        const engine = runSteps(9, 1)
+        const particle = engine.particles[0]
+        const before = { vx: particle.vx, vy: particle.vy }
+        engine.step()
+        expect(particle.vx).toBeCloseTo(before.vx + 10 * FIXED_STEP)
+        expect(particle.vy).toBeCloseTo(before.vy + 100 * FIXED_STEP)
+    })
+
+    it('advances in fixed steps regardless of frame time', () => {
+        const stepped = runSteps(5, 6)
+        const advanced = createParticleEngine(scene, { width: 800, height: 600, seed: 5 })
+        advanced.advance(FIXED_STEP * 2.5)
+        advanced.advance(FIXED_STEP * 3.6)
+        expect(advanced.elapsed).toBeCloseTo(stepped.elapsed)
+        expect(advanced.particles).toEqual(stepped.particles)
+    })
+
+    it('bursts up to the particle cap', () => {
+        const engine = createParticleEngine(parseParticleScene({ particleCount: 10, emitters: [{ rate: 0 }] }), {
+            width: 800,
+            height: 600,
+            seed: 2
+        })
+        engine.burst(4)
+        expect(engine.particles).toHaveLength(4)
+        engine.burst(20)
+        expect(engine.particles).toHaveLength(10)
+    })
+
+    it('renders one arc per live particle', () => {
+        const engine = runSteps(11, 20)
+        const calls: string[] = []
+        const ctx = {
+            globalAlpha: 1,
+            fillStyle: '',
+            clearRect: () => calls.push('clear'),
+            fillRect: () => calls.push('fillRect'),
+            beginPath: () => calls.push('beginPath'),
+            arc: () => calls.push('arc'),
+            fill: () => calls.push('fill')
+        }
+        engine.render(ctx as never)
+        expect(calls[0]).toBe('clear')
+        expect(calls.filter(call => call === 'arc')).toHaveLength(engine.particles.length)
+    })
+})
+
+describe('streak particles', () => {
+    it('draws a line along the velocity instead of a dot', () => {
+        const engine = createParticleEngine(
+            parseParticleScene({ particleStyle: 'streak', emitters: [{ rate: 0, speed: 100, angle: 90 }] }),
+            { width: 100, height: 100, seed: 1 }
+        )
+        engine.burst(1)
+        const lines: number[][] = []
+        const ctx = {
+            globalAlpha: 1,
+            fillStyle: '',
+            strokeStyle: '',
+            lineWidth: 1,
+            clearRect: () => {},
+            fillRect: () => {},
+            beginPath: () => {},
+            arc: () => lines.push([]),
+            fill: () => {},
+            moveTo: (x: number, y: number) => lines.push([x, y]),
+            lineTo: (x: number, y: number) => lines[lines.length - 1].push(x, y),
+            stroke: () => {}
+        }
+        engine.render(ctx as never)
+        expect(lines).toHaveLength(1)
+        const [x1, y1, x2, y2] = lines[0]
+        expect(x2).toBeCloseTo(x1)
+        expect(y1 - y2).toBeCloseTo(4)
+    })
+})
+
+describe('createRandom', () => {
+    it('returns values in [0, 1)', () => {
+        const random = createRandom(123)
+        for (let i = 0; i < 100; i++) {
+            const value = random()
+            expect(value).toBeGreaterThanOrEqual(0)
+            expect(value).toBeLessThan(1)
+        }
+    })
+})
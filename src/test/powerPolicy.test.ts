@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { evaluatePowerPolicy, shouldRenderFrame } from '../utils/powerPolicy'
+import type { PowerConditions } from '../utils/powerPolicy'
+
+const active: PowerConditions = {
+    requested: false,
+    hidden: false,
+    focused: true,
+    reducedMotion: false,
+    battery: null,
+    idleMs: 0
+}
+
+describe('evaluatePowerPolicy', () => {
+    it('runs at full speed when nothing applies', () => {
+        expect(evaluatePowerPolicy(active, 'battery-saver')).toEqual({ state: 'running', reason: null, fps: null })
+    })
+
+    it('pauses on request regardless of preset', () => {
+        expect(evaluatePowerPolicy({ ...active, requested: true }, 'performance'))
+            .toEqual({ state: 'paused', reason: 'requested', fps: 0 })
+    })
+
+    it('pauses a hidden tab in every preset', () => {
+        for (const preset of ['performance', 'balanced', 'battery-saver'] as const) {
+            expect(evaluatePowerPolicy({ ...active, hidden: true }, preset).state).toBe('paused')
+        }
+    })
+
+    it('applies the preset for reduced motion', () => {
+        expect(evaluatePowerPolicy({ ...active, reducedMotion: true }, 'performance'))
+            .toEqual({ state: 'throttled', reason: 'reduced-motion', fps: 30 })
+        expect(evaluatePowerPolicy({ ...active, reducedMotion: true }, 'balanced').state).toBe('paused')
+    })
+
+    it('only reacts to a low battery that is not charging', () => {
+        const low = { ...active, battery: { level: 0.15, charging: false } }
+        expect(evaluatePowerPolicy(low, 'balanced')).toEqual({ state: 'throttled', reason: 'low-battery', fps: 24 })
+        expect(evaluatePowerPolicy({ ...low, battery: { level: 0.15, charging: true } }, 'balanced').state)
+            .toBe('running')
+        expect(evaluatePowerPolicy({ ...active, battery: { level: 0.4, charging: false } }, 'battery-saver').state)
+            .toBe('paused')
+    })
+
+    it('throttles or pauses after the idle timeout', () => {
+        expect(evaluatePowerPolicy({ ...active, idleMs: 4 * 60_000 }, 'balanced').state).toBe('running')
+        expect(evaluatePowerPolicy({ ...active, idleMs: 5 * 60_000 }, 'balanced').reason).toBe('idle')
+        expect(evaluatePowerPolicy({ ...active, idleMs: Number.MAX_SAFE_INTEGER }, 'performance').state).toBe('running')
+    })
+
+    it('keeps the most restrictive state', () => {
+        const decision = evaluatePowerPolicy({ ...active, focused: false, idleMs: 120_000 }, 'battery-saver')
+        expect(decision).toEqual({ state: 'paused', reason: 'idle', fps: 0 })
+    })
+})
+
+describe('shouldRenderFrame', () => {
+    it('caps the frame rate when throttled', () => {
+        const throttled = { state: 'throttled', reason: 'blurred', fps: 20 } as const
+        expect(shouldRenderFrame(throttled, 1000, 1040)).toBe(false)
+        expect(shouldRenderFrame(throttled, 1000, 1050)).toBe(true)
+        expect(shouldRenderFrame({ state: 'paused', reason: 'hidden', fps: 0 }, 0, 10_000)).toBe(false)
+        expect(shouldRenderFrame({ state: 'running', reason: null, fps: null }, 1000, 1001)).toBe(true)
+    })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+    createStallMonitor,
+    downgradeRendition,
+    renditionType,
+    selectRendition,
+    watchPlaybackEnvironment
+} from '../utils/renditions'
+import type { PlaybackEnvironment, RenditionCandidate } from '../utils/renditions'
+
+const rendition = (height: number, codecs: string = 'avc1.640028', bitrate?: number): RenditionCandidate => ({
+    file_url: `/${height}-${codecs}.mp4`,
+    mime_type: codecs.startsWith('vp9') ? 'video/webm' : 'video/mp4',
+    codecs,
+    width: Math.round((height * 16) / 9),
+    height,
+    bitrate
+})
+
+const renditions = [
+    rendition(2160, 'avc1.640033', 40000),
+    rendition(1080, 'avc1.640028', 8000),
+    rendition(720, 'avc1.64001f', 4000),
+    rendition(480, 'avc1.64001e', 1500)
+]
+
+const env = (overrides: Partial<PlaybackEnvironment> = {}): PlaybackEnvironment => ({
+    viewportWidth: 1920,
+    viewportHeight: 1080,
+    devicePixelRatio: 1,
+    connection: null,
+    canPlay: () => true,
+    ...overrides
+})
+
+describe('selectRendition', () => {
+    it('picks the smallest rendition that covers the viewport', () => {
+        expect(selectRendition(renditions, env())?.height).toBe(1080)
+        expect(selectRendition(renditions, env({ viewportWidth: 390, viewportHeight: 844, devicePixelRatio: 3 }))?.height)
+            .toBe(2160)
+        expect(selectRendition(renditions, env({ viewportWidth: 800, viewportHeight: 450 }))?.height).toBe(480)
+    })
+
+    it('caps the pixel ratio at 2x', () => {
+        expect(selectRendition(renditions, env({ viewportWidth: 960, viewportHeight: 540, devicePixelRatio: 4 }))?.height)
+            .toBe(1080)
+    })
+
+    it('respects connection hints', () => {
+        expect(selectRendition(renditions, env({ connection: { saveData: true } }))?.height).toBe(480)
+        expect(selectRendition(renditions, env({ connection: { effectiveType: '3g' } }))?.height).toBe(720)
+        expect(selectRendition(renditions, env({ connection: { effectiveType: '4g', downlink: 6 } }))?.height).toBe(720)
+    })
+
+    it('skips codecs the browser cannot play and prefers efficient ones', () => {
+        const withVp9 = [...renditions, rendition(1080, 'vp09.00.40.08', 5000)]
+        expect(selectRendition(withVp9, env())?.codecs).toBe('vp09.00.40.08')
+
+        const noVp9 = env({ canPlay: type => !type.includes('vp09') })
+        expect(selectRendition(withVp9, noVp9)?.codecs).toBe('avc1.640028')
+        expect(selectRendition(renditions, env({ canPlay: () => false }))).toBeNull()
+    })
+
+    it('plays legacy rows without size information', () => {
+        const legacy = { file_url: '/old.mp4', mime_type: 'video/mp4', width: null, height: null }
+        expect(selectRendition([legacy], env())).toBe(legacy)
+    })
+
+    it('treats an unsized original as the largest, picked only when nothing smaller is sharp', () => {
+        const original = { file_url: '/original.mp4', mime_type: 'video/mp4', width: null, height: null }
+        const mixed = [original, renditions[2], renditions[3]]
+        expect(selectRendition(mixed, env({ viewportWidth: 1280, viewportHeight: 720 }))?.height).toBe(720)
+        expect(selectRendition(mixed, env())).toBe(original)
+        expect(downgradeRendition(mixed, original, env())?.height).toBe(720)
+    })
+})
+
+describe('downgradeRendition', () => {
+    it('steps down one size at a time', () => {
+        const current = renditions[1]
+        expect(downgradeRendition(renditions, current, env())?.height).toBe(720)
+        expect(downgradeRendition(renditions, renditions[3], env())).toBeNull()
+    })
+})
+
+describe('renditionType', () => {
+    it('adds codecs to the mime type', () => {
+        expect(renditionType(rendition(720, 'avc1.64001f'))).toBe('video/mp4; codecs="avc1.64001f"')
+        expect(renditionType({ file_url: '/a', mime_type: 'video/mp4', width: 1, height: 1 })).toBe('video/mp4')
+    })
+})
+
+describe('createStallMonitor', () => {
+    it('flags long and repeated stalls', () => {
+        const monitor = createStallMonitor({ stallTimeout: 3000, maxStalls: 3, window: 30_000 })
+        expect(monitor.waiting(0)).toBe(false)
+        expect(monitor.isStuck(2000)).toBe(false)
+        expect(monitor.isStuck(3000)).toBe(true)
+
+        monitor.playing()
+        expect(monitor.isStuck(10_000)).toBe(false)
+        expect(monitor.waiting(10_000)).toBe(false)
+        expect(monitor.waiting(20_000)).toBe(true)
+        expect(monitor.waiting(60_000)).toBe(false)
+    })
+})
+
+describe('watchPlaybackEnvironment', () => {
+    it('reports the new viewport once resizing settles, until stopped', () => {
+        vi.useFakeTimers()
+        const onChange = vi.fn()
+        const stop = watchPlaybackEnvironment(document.createElement('video'), onChange, 500)
+
+        window.dispatchEvent(new Event('resize'))
+        window.dispatchEvent(new Event('resize'))
+        vi.advanceTimersByTime(500)
+        expect(onChange).toHaveBeenCalledTimes(1)
+        expect(onChange.mock.calls[0][0].viewportWidth).toBe(window.innerWidth)
+
+        stop()
+        window.dispatchEvent(new Event('resize'))
+        vi.advanceTimersByTime(500)
+        expect(onChange).toHaveBeenCalledTimes(1)
+        vi.useRealTimers()
+    })
+})
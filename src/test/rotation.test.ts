@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { pickNextIndex, pickPreviousIndex, remainingUntil } from '../utils/rotation'
+
+describe('pickNextIndex', () => {
+    it('returns -1 for an empty queue', () => {
+        expect(pickNextIndex(0, -1, 'sequential')).toBe(-1)
+        expect(pickNextIndex(0, -1, 'random')).toBe(-1)
+    })
+
+    it('walks the queue in order and wraps around', () => {
+        expect(pickNextIndex(3, -1, 'sequential')).toBe(0)
+        expect(pickNextIndex(3, 0, 'sequential')).toBe(1)
+        expect(pickNextIndex(3, 2, 'sequential')).toBe(0)
+    })
+
+    it('never repeats the current wallpaper in random order', () => {
+        for (const value of [0, 0.3, 0.6, 0.999]) {
+            expect(pickNextIndex(4, 2, 'random', () => value)).not.toBe(2)
+        }
+    })
+
+    it('picks any wallpaper in random order when nothing from the queue is showing', () => {
+        expect(pickNextIndex(4, -1, 'random', () => 0.75)).toBe(3)
+    })
+})
+
+describe('pickPreviousIndex', () => {
+    it('steps back and wraps to the end', () => {
+        expect(pickPreviousIndex(3, 2)).toBe(1)
+        expect(pickPreviousIndex(3, 0)).toBe(2)
+        expect(pickPreviousIndex(3, -1)).toBe(2)
+    })
+})
+
+describe('remainingUntil', () => {
+    it('never returns a negative delay', () => {
+        expect(remainingUntil(1000, 5000)).toBe(0)
+        expect(remainingUntil(5000, 1000)).toBe(4000)
+        expect(remainingUntil(null)).toBe(0)
+    })
+})
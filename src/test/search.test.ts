@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeSearchQuery } from '../utils/search'
+import { offsetPage } from '../utils/pagination'
+
+describe('normalizeSearchQuery', () => {
+    it('trims and collapses whitespace', () => {
+        expect(normalizeSearchQuery('  neon   city\tnight ')).toBe('neon city night')
+    })
+
+    it('treats blank input as no search', () => {
+        expect(normalizeSearchQuery(' \n ')).toBe('')
+    })
+
+    it('caps very long queries', () => {
+        expect(normalizeSearchQuery('a'.repeat(500))).toHaveLength(100)
+    })
+})
+
+describe('offsetPage', () => {
+    const rows = ['a', 'b', 'c', 'd']
+
+    it('drops the look-ahead row and points at the next page', () => {
+        expect(offsetPage(rows, 30, 3)).toEqual({ items: ['a', 'b', 'c'], nextOffset: 33 })
+    })
+
+    it('ends paging when no extra row came back', () => {
+        expect(offsetPage(rows, 0, 4)).toEqual({ items: rows, nextOffset: null })
+        expect(offsetPage([], 0, 4)).toEqual({ items: [], nextOffset: null })
+    })
+})
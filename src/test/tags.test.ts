@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeTags, slugifyTag, splitTagInput, suggestTags } from '../utils/tags'
+import type { ITagCount } from '../types/tags'
+
+const tag = (slug: string, wallpaper_count: number, hidden = false): ITagCount => ({
+    slug,
+    label: slug,
+    hidden,
+    wallpaper_count
+})
+
+describe('slugifyTag', () => {
+    it('lowercases and hyphenates', () => {
+        expect(slugifyTag('  Nature ')).toBe('nature')
+        expect(slugifyTag('Sci-Fi  City!')).toBe('sci-fi-city')
+        expect(slugifyTag('--dark__mode--')).toBe('dark-mode')
+    })
+
+    it('keeps non-latin letters', () => {
+        expect(slugifyTag('Café Noir')).toBe('café-noir')
+        expect(slugifyTag('夜景')).toBe('夜景')
+    })
+
+    it('returns an empty slug for punctuation only', () => {
+        expect(slugifyTag(' #! ')).toBe('')
+    })
+})
+
+describe('normalizeTags', () => {
+    it('collapses variants of the same tag', () => {
+        expect(normalizeTags(['Nature', 'nature ', 'NATURE'])).toEqual(['nature'])
+    })
+
+    it('resolves aliases and keeps first-seen order', () => {
+        const aliases = { natural: 'nature', scifi: 'sci-fi' }
+        expect(normalizeTags(['SciFi', 'Natural', 'space', 'nature'], aliases)).toEqual(['sci-fi', 'nature', 'space'])
+    })
+
+    it('drops empty tags', () => {
+        expect(normalizeTags(['', '  ', '!!', 'ok'])).toEqual(['ok'])
+    })
+})
+
+describe('splitTagInput', () => {
+    it('splits on commas and trims', () => {
+        expect(splitTagInput(' nature, abstract ,, minimal ')).toEqual(['nature', 'abstract', 'minimal'])
+    })
+})
+
+describe('suggestTags', () => {
+    const counts = [tag('landscape', 3), tag('night', 10), tag('moon', 4), tag('nightlife', 12), tag('nsfw', 50, true)]
+
+    it('puts prefix matches first, then more used tags', () => {
+        expect(suggestTags('n', counts).map(t => t.slug)).toEqual(['nightlife', 'night', 'moon', 'landscape'])
+        expect(suggestTags('night', counts).map(t => t.slug)).toEqual(['nightlife', 'night'])
+    })
+
+    it('skips hidden and already chosen tags', () => {
+        expect(suggestTags('ns', counts)).toEqual([])
+        expect(suggestTags('night', counts, ['night']).map(t => t.slug)).toEqual(['nightlife'])
+    })
+
+    it('matches on the slug of the query and respects the limit', () => {
+        expect(suggestTags('Night ', counts, [], 1).map(t => t.slug)).toEqual(['nightlife'])
+        expect(suggestTags('  ', counts)).toEqual([])
+    })
+})
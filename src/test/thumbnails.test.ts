@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { previewWindow, thumbnailSize } from '../utils/thumbnails'
+import { id3TagSize, readId3Cover, readId3Pictures } from '../utils/id3'
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0))
+
+const syncsafe = (size: number) => [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]
+
+const uint32 = (size: number) => [(size >>> 24) & 0xff, (size >>> 16) & 0xff, (size >>> 8) & 0xff, size & 0xff]
+
+// A tag holding the given frames, sized the way the version expects
+const tag = (version: 2 | 3 | 4, frames: [string, number[]][]) => {
+    const body = frames.flatMap(([id, data]) =>
+        version === 2
+            ? [...ascii(id), (data.length >> 16) & 0xff, (data.length >> 8) & 0xff, data.length & 0xff, ...data]
+            : [...ascii(id), ...(version === 4 ? syncsafe(data.length) : uint32(data.length)), 0, 0, ...data]
+    )
+    const padding = [0, 0, 0, 0]
+    return new Uint8Array([...ascii('ID3'), version, 0, 0, ...syncsafe(body.length + padding.length), ...body, ...padding])
+}
+
+// APIC body: encoding, MIME type, picture type, description, image bytes
+const apic = (mimeType: string, pictureType: number, image: number[], encoding = 0, description = 'cover') => [
+    encoding,
+    ...ascii(mimeType),
+    0,
+    pictureType,
+    ...(encoding === 1 ? [0xff, 0xfe, ...ascii(description).flatMap(c => [c, 0]), 0, 0] : [...ascii(description), 0]),
+    ...image
+]
+
+describe('thumbnailSize', () => {
+    it('scales down to the maximum width keeping the aspect ratio', () => {
+        expect(thumbnailSize(3840, 2160, 640)).toEqual({ width: 640, height: 360 })
+        expect(thumbnailSize(1080, 1920, 640)).toEqual({ width: 640, height: 1138 })
+    })
+
+    it('never scales up', () => {
+        expect(thumbnailSize(320, 200, 640)).toEqual({ width: 320, height: 200 })
+    })
+})
+
+describe('previewWindow', () => {
+    it('starts a tenth of the way in', () => {
+        expect(previewWindow(60, 3)).toEqual({ start: 6, end: 9 })
+    })
+
+    it('keeps the window inside short videos', () => {
+        expect(previewWindow(4, 3)).toEqual({ start: 0.4, end: 3.4 })
+        expect(previewWindow(2, 3)).toEqual({ start: 0, end: 2 })
+    })
+
+    it('falls back to the start without a known duration', () => {
+        expect(previewWindow(Infinity, 3)).toEqual({ start: 0, end: 3 })
+    })
+})
+
+describe('id3TagSize', () => {
+    it('reads the syncsafe size including the header', () => {
+        expect(id3TagSize(new Uint8Array([...ascii('ID3'), 3, 0, 0, 0, 0, 2, 1]))).toBe(10 + 257)
+    })
+
+    it('is 0 without a tag', () => {
+        expect(id3TagSize(new Uint8Array(ascii('fLaC\0\0\0\0\0\0')))).toBe(0)
+    })
+})
+
+describe('readId3Cover', () => {
+    it('reads an ID3v2.3 APIC frame', () => {
+        const cover = readId3Cover(tag(3, [['TIT2', [0, ...ascii('Song')]], ['APIC', apic('image/png', 3, [1, 2, 3])]]))
+        expect(cover?.mimeType).toBe('image/png')
+        expect(Array.from(cover?.data ?? [])).toEqual([1, 2, 3])
+    })
+
+    it('reads ID3v2.4 syncsafe frame sizes and UTF-16 descriptions', () => {
+        const image = Array.from({ length: 200 }, (_, i) => i % 256)
+        const cover = readId3Cover(tag(4, [['APIC', apic('image/jpg', 3, image, 1)]]))
+        expect(cover?.mimeType).toBe('image/jpeg')
+        expect(Array.from(cover?.data ?? [])).toEqual(image)
+    })
+
+    it('reads ID3v2.2 PIC frames', () => {
+        const cover = readId3Cover(tag(2, [['PIC', [0, ...ascii('JPG'), 3, 0, 9, 9]]]))
+        expect(cover?.mimeType).toBe('image/jpeg')
+        expect(Array.from(cover?.data ?? [])).toEqual([9, 9])
+    })
+
+    it('prefers the front cover', () => {
+        const cover = readId3Cover(
+            tag(3, [['APIC', apic('image/png', 4, [4])], ['APIC', apic('image/jpeg', 3, [3])]])
+        )
+        expect(Array.from(cover?.data ?? [])).toEqual([3])
+    })
+
+    it('skips linked images and files without pictures', () => {
+        expect(readId3Pictures(tag(3, [['APIC', apic('-->', 3, ascii('http://example.com/a.jpg'))]]))).toEqual([])
+        expect(readId3Cover(tag(3, [['TIT2', [0, ...ascii('Song')]]]))).toBeNull()
+        expect(readId3Cover(new Uint8Array(ascii('not a tag')))).toBeNull()
+    })
+})
@@ -0,0 +1,188 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createTusUpload, encodeMetadata, isRetryable, measureSpeed, retryDelay } from '../utils/tusUpload'
+import type { TusProgress, TusUploadOptions } from '../utils/tusUpload'
+
+// A local stand-in for Supabase's tus endpoint, just enough of the protocol to upload against
+interface StoredUpload {
+    length: number
+    metadata: string
+    data: Uint8Array
+}
+
+const endpoint = 'https://storage.test/files/'
+const uploads = new Map<string, StoredUpload>()
+const requests: string[] = []
+// Hooks a test can set to make the next PATCH misbehave
+let patchFailures: { status: number, keep: number }[] = []
+let authError = false
+
+const concat = (a: Uint8Array, b: Uint8Array) => {
+    const joined = new Uint8Array(a.length + b.length)
+    joined.set(a)
+    joined.set(b, a.length)
+    return joined
+}
+
+const server = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const method = init.method ?? 'GET'
+    const headers = new Headers(init.headers)
+    const body = new Uint8Array(await new Response(init.body).arrayBuffer())
+    requests.push(method)
+    const id = String(input).split('/').pop() ?? ''
+    const upload = uploads.get(id)
+    const reply = (status: number, replyHeaders: Record<string, string> = {}) =>
+        new Response(null, { status, headers: { 'Tus-Resumable': '1.0.0', ...replyHeaders } })
+
+    if (authError) return reply(403)
+    if (method === 'POST') {
+        const created = `${uploads.size + 1}`
+        uploads.set(created, {
+            length: Number(headers.get('Upload-Length')),
+            metadata: headers.get('Upload-Metadata') ?? '',
+            data: new Uint8Array()
+        })
+        return reply(201, { Location: `/files/${created}` })
+    }
+    if (!upload) return reply(404)
+    if (method === 'HEAD') {
+        return reply(200, { 'Upload-Offset': String(upload.data.length), 'Upload-Length': String(upload.length) })
+    }
+    if (method === 'PATCH') {
+        if (Number(headers.get('Upload-Offset')) !== upload.data.length) return reply(409)
+        const failure = patchFailures.shift()
+        // A failed request may still have delivered part of the chunk
+        upload.data = concat(upload.data, failure ? body.subarray(0, failure.keep) : body)
+        if (failure) return reply(failure.status)
+        return reply(204, { 'Upload-Offset': String(upload.data.length) })
+    }
+    if (method === 'DELETE') {
+        uploads.delete(id)
+        return reply(204)
+    }
+    return reply(405)
+}
+
+beforeEach(() => {
+    uploads.clear()
+    requests.length = 0
+    patchFailures = []
+    authError = false
+})
+
+const fileOf = (size: number) => new Blob([Uint8Array.from({ length: size }, (_, i) => i % 251)])
+
+const stored = async (url: string, file: Blob) => {
+    const upload = uploads.get(url.split('/').pop() ?? '')
+    return upload && Array.from(upload.data).join() === Array.from(new Uint8Array(await file.arrayBuffer())).join()
+}
+
+const upload = (file: Blob, options: Partial<TusUploadOptions> = {}) =>
+    createTusUpload(file, { endpoint, fetch: server, chunkSize: 1000, retryBaseDelay: 1, ...options })
+
+describe('createTusUpload', () => {
+    it('uploads in chunks and reports progress', async () => {
+        const file = fileOf(2500)
+        const reports: TusProgress[] = []
+        const url = await upload(file, {
+            metadata: { bucketName: 'wallpapers', objectName: 'u/1.mp4' },
+            onProgress: progress => reports.push(progress)
+        }).start()
+
+        expect(await stored(url, file)).toBe(true)
+        expect(requests).toEqual(['POST', 'PATCH', 'PATCH', 'PATCH'])
+        expect(uploads.get('1')?.metadata).toBe(encodeMetadata({ bucketName: 'wallpapers', objectName: 'u/1.mp4' }))
+        expect(reports.map(report => report.bytesUploaded)).toContain(1000)
+        expect(reports.at(-1)).toMatchObject({ status: 'done', bytesUploaded: 2500, bytesTotal: 2500 })
+    })
+
+    it('picks up from what the server kept after a failure', async () => {
+        patchFailures = [{ status: 500, keep: 400 }, { status: 503, keep: 0 }]
+        const file = fileOf(2500)
+        const url = await upload(file).start()
+
+        expect(await stored(url, file)).toBe(true)
+        expect(requests).toEqual(['POST', 'PATCH', 'HEAD', 'PATCH', 'HEAD', 'PATCH', 'PATCH', 'PATCH'])
+    })
+
+    it('gives up when retries run out', async () => {
+        patchFailures = Array.from({ length: 4 }, () => ({ status: 500, keep: 0 }))
+        const task = upload(fileOf(2500), { maxRetries: 2 })
+
+        await expect(task.start()).rejects.toThrow('Failed to upload chunk (500)')
+        expect(task.progress().status).toBe('error')
+    })
+
+    it('does not retry errors the client has to fix', async () => {
+        authError = true
+        const task = upload(fileOf(10))
+
+        await expect(task.start()).rejects.toThrow('Failed to create upload (403)')
+        expect(requests).toEqual(['POST'])
+    })
+
+    it('pauses between chunks and resumes from the server offset', async () => {
+        const file = fileOf(3000)
+        let task: ReturnType<typeof upload> | null = null
+        let paused = false
+        task = upload(file, {
+            onProgress: progress => {
+                if (progress.bytesUploaded === 1000 && !paused) {
+                    paused = true
+                    task?.pause()
+                }
+            }
+        })
+        const done = task.start()
+
+        await new Promise(resolve => setTimeout(resolve, 20))
+        expect(task.progress()).toMatchObject({ status: 'paused', bytesUploaded: 1000 })
+        const sentWhilePaused = requests.length
+
+        task.resume()
+        const url = await done
+        expect(requests.slice(sentWhilePaused)).toEqual(['HEAD', 'PATCH', 'PATCH'])
+        expect(await stored(url, file)).toBe(true)
+    })
+
+    it('cancels and discards the partial upload', async () => {
+        let task: ReturnType<typeof upload> | null = null
+        task = upload(fileOf(3000), {
+            onProgress: progress => {
+                if (progress.bytesUploaded === 1000) task?.cancel()
+            }
+        })
+
+        await expect(task.start()).rejects.toThrow('Upload cancelled')
+        await new Promise(resolve => setTimeout(resolve, 20))
+        expect(requests).toContain('DELETE')
+        expect(uploads.size).toBe(0)
+    })
+})
+
+describe('retryDelay', () => {
+    it('doubles up to the maximum', () => {
+        expect([0, 1, 2, 3].map(attempt => retryDelay(attempt))).toEqual([1000, 2000, 4000, 8000])
+        expect(retryDelay(10)).toBe(30000)
+    })
+})
+
+describe('isRetryable', () => {
+    it('retries network and server trouble only', () => {
+        expect([0, 409, 423, 429, 500, 503].every(isRetryable)).toBe(true)
+        expect([400, 401, 403, 404, 413].some(isRetryable)).toBe(false)
+    })
+})
+
+describe('encodeMetadata', () => {
+    it('base64 encodes UTF-8 values', () => {
+        expect(encodeMetadata({ objectName: 'a.mp4', title: 'café' })).toBe('objectName YS5tcDQ=,title Y2Fmw6k=')
+    })
+})
+
+describe('measureSpeed', () => {
+    it('averages over the samples', () => {
+        expect(measureSpeed([])).toBe(0)
+        expect(measureSpeed([{ time: 0, bytes: 0 }, { time: 500, bytes: 1000 }, { time: 2000, bytes: 4000 }])).toBe(2000)
+    })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { forEachLimited, itemsToStart, parseFileName } from '../utils/uploadQueue'
+import { collectEntryFiles } from '../utils/droppedFiles'
+
+// Just enough of the File and Directory Entries API to walk a dropped folder
+const fileEntry = (name: string) =>
+    ({
+        name,
+        isFile: true,
+        isDirectory: false,
+        file: (resolve: (file: File) => void) => resolve(new File(['x'], name))
+    }) as unknown as FileSystemEntry
+
+const directoryEntry = (name: string, children: FileSystemEntry[], batchSize: number = 2) =>
+    ({
+        name,
+        isFile: false,
+        isDirectory: true,
+        createReader: () => {
+            let offset = 0
+            return {
+                readEntries: (resolve: (entries: FileSystemEntry[]) => void) => {
+                    const batch = children.slice(offset, offset + batchSize)
+                    offset += batchSize
+                    setTimeout(() => resolve(batch))
+                }
+            }
+        }
+    }) as unknown as FileSystemEntry
+
+describe('parseFileName', () => {
+    it('turns file names into titles', () => {
+        expect(parseFileName('northern_lights.over.iceland.jpg', 'wallpaper')).toEqual({
+            title: 'northern lights over iceland',
+            artist: null,
+            tags: []
+        })
+    })
+
+    it('splits artist and title for music only', () => {
+        expect(parseFileName('Daft Punk - Veridis Quo.mp3', 'music')).toMatchObject({
+            title: 'Veridis Quo',
+            artist: 'Daft Punk'
+        })
+        expect(parseFileName('City - Night.png', 'wallpaper').title).toBe('City - Night')
+    })
+
+    it('reads tags from brackets and hashtags', () => {
+        expect(parseFileName('aurora [night, sky] #night_sky #4k.webp', 'wallpaper')).toEqual({
+            title: 'aurora',
+            artist: null,
+            tags: ['night', 'sky', 'night_sky', '4k']
+        })
+    })
+
+    it('falls back to the file name when nothing else is left', () => {
+        expect(parseFileName('#abstract.png', 'wallpaper').title).toBe('#abstract.png')
+    })
+})
+
+describe('itemsToStart', () => {
+    it('fills free slots in queue order', () => {
+        const items = [
+            { id: 'a', status: 'done' },
+            { id: 'b', status: 'uploading' },
+            { id: 'c', status: 'queued' },
+            { id: 'd', status: 'ready' },
+            { id: 'e', status: 'queued' }
+        ]
+        expect(itemsToStart(items, 2).map(item => item.id)).toEqual(['c'])
+        expect(itemsToStart(items, 3).map(item => item.id)).toEqual(['c', 'e'])
+        expect(itemsToStart(items, 1)).toEqual([])
+    })
+})
+
+describe('forEachLimited', () => {
+    it('never runs more than the limit at once and visits every item', async () => {
+        let running = 0
+        let peak = 0
+        const seen: number[] = []
+
+        await forEachLimited([1, 2, 3, 4, 5], 2, async (item) => {
+            running++
+            peak = Math.max(peak, running)
+            await new Promise(resolve => setTimeout(resolve, 5 - item))
+            seen.push(item)
+            running--
+        })
+
+        expect(peak).toBe(2)
+        expect(seen.sort()).toEqual([1, 2, 3, 4, 5])
+    })
+})
+
+describe('collectEntryFiles', () => {
+    it('walks nested folders in name order, reading every batch', async () => {
+        const folder = directoryEntry('set', [
+            fileEntry('frame-10.jpg'),
+            fileEntry('frame-2.jpg'),
+            fileEntry('.DS_Store'),
+            directoryEntry('extra', [fileEntry('b.png'), fileEntry('a.png')]),
+            fileEntry('frame-1.jpg')
+        ])
+
+        const files = await collectEntryFiles(folder)
+        expect(files.map(file => file.name)).toEqual(['a.png', 'b.png', 'frame-1.jpg', 'frame-2.jpg', 'frame-10.jpg'])
+    })
+})
@@ -0,0 +1,107 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+    UPLOAD_LIMITS,
+    checkDecoded,
+    checkFile,
+    describeRejection,
+    uploadExtension,
+    validateUpload
+} from '../utils/uploadValidation'
+
+const MB = 1024 * 1024
+
+describe('checkFile', () => {
+    it('rejects empty files before anything else', () => {
+        expect(checkFile('wallpaper', 0, null)).toEqual({ code: 'empty-file' })
+    })
+
+    it('only accepts detected types for the target', () => {
+        expect(checkFile('wallpaper', 1000, 'image/png')).toBeNull()
+        expect(checkFile('wallpaper', 1000, null)).toEqual({ code: 'unsupported-type', mimeType: null })
+        expect(checkFile('wallpaper', 1000, 'audio/mpeg')).toEqual({ code: 'unsupported-type', mimeType: 'audio/mpeg' })
+        expect(checkFile('music', 1000, 'image/png')).toEqual({ code: 'unsupported-type', mimeType: 'image/png' })
+        expect(checkFile('music', 1000, 'audio/flac')).toBeNull()
+    })
+
+    it('applies the size limit of the kind', () => {
+        expect(checkFile('wallpaper', 30 * MB, 'image/jpeg')).toEqual({
+            code: 'file-too-large',
+            limit: UPLOAD_LIMITS.image.maxBytes,
+            actual: 30 * MB
+        })
+        expect(checkFile('wallpaper', 30 * MB, 'video/mp4')).toBeNull()
+        expect(checkFile('wallpaper', 2 * MB, 'application/json')?.code).toBe('file-too-large')
+    })
+})
+
+describe('checkDecoded', () => {
+    it('requires 1280 × 720 in either orientation', () => {
+        expect(checkDecoded('image', { width: 1920, height: 1080, duration: null })).toBeNull()
+        expect(checkDecoded('image', { width: 1080, height: 1920, duration: null })).toBeNull()
+        expect(checkDecoded('video', { width: 640, height: 360, duration: 10 })).toEqual({
+            code: 'resolution-too-low',
+            minimum: { width: 1280, height: 720 },
+            actual: { width: 640, height: 360 }
+        })
+    })
+
+    it('limits video and audio length', () => {
+        expect(checkDecoded('video', { width: 1920, height: 1080, duration: 300 })?.code).toBe('duration-too-long')
+        expect(checkDecoded('audio', { width: null, height: null, duration: 600 })).toBeNull()
+        expect(checkDecoded('audio', { width: null, height: null, duration: 1200 })).toEqual({
+            code: 'duration-too-long',
+            limit: 900,
+            actual: 1200
+        })
+    })
+})
+
+describe('describeRejection', () => {
+    it('explains each code', () => {
+        expect(describeRejection({ code: 'empty-file' })).toBe('The file is empty.')
+        expect(describeRejection({ code: 'file-too-large', limit: 25 * MB, actual: 31.5 * MB })).toBe(
+            'The file is 31.5 MB, the limit for this type is 25 MB.'
+        )
+        expect(
+            describeRejection({
+                code: 'resolution-too-low',
+                minimum: { width: 1280, height: 720 },
+                actual: { width: 800, height: 600 }
+            })
+        ).toBe('The picture is 800 × 600, wallpapers need at least 1280 × 720.')
+        expect(describeRejection({ code: 'duration-too-long', limit: 900, actual: 1205 })).toBe(
+            'It runs 20:05, the limit is 15:00.'
+        )
+    })
+
+    it('lists the accepted formats of the target', () => {
+        expect(describeRejection({ code: 'unsupported-type', mimeType: 'image/svg+xml' }, 'wallpaper')).toContain('JPG')
+        expect(describeRejection({ code: 'unsupported-type', mimeType: null }, 'music')).toBe(
+            "This file type isn't recognised. Use MP3, M4A, AAC, OGG, FLAC, WAV, WEBA."
+        )
+    })
+})
+
+describe('uploadExtension', () => {
+    it('names files after their detected type', () => {
+        expect(uploadExtension('image/jpeg')).toBe('jpg')
+        expect(uploadExtension('video/quicktime')).toBe('mov')
+        expect(uploadExtension('audio/mpeg')).toBe('mp3')
+        expect(uploadExtension('text/html')).toBeNull()
+    })
+})
+
+describe('validateUpload', () => {
+    it('trusts the contents over the file name', async () => {
+        const file = new File(['<html></html>'], 'sunset.jpg', { type: 'image/jpeg' })
+        expect((await validateUpload(file, 'wallpaper')).error).toEqual({ code: 'unsupported-type', mimeType: null })
+    })
+
+    it('explains why a particle scene is invalid', async () => {
+        const file = new File(['{"particles": "lots"'], 'scene.json')
+        const { error } = await validateUpload(file, 'wallpaper')
+        expect(error?.code).toBe('decode-failed')
+        expect(error && describeRejection(error)).toMatch(/^The file couldn't be read: /)
+    })
+})
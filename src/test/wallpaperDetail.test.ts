@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import type { Wallpaper } from '../composables/useWallpaper'
+import { applyPageMeta, wallpaperMeta, wallpaperShareUrl } from '../utils/meta'
+import { rankRelated } from '../utils/relatedWallpapers'
+import { formatDimensions, formatDuration } from '../utils/mediaInfo'
+
+const wallpaper = (id: string, tags: string[], popularity = 0): Wallpaper => ({
+    id,
+    title: `Wallpaper ${id}`,
+    file_url: `/wallpapers/${id}.jpg`,
+    uploader_id: 'u1',
+    tags,
+    popularity,
+    created_at: '2024-01-01T00:00:00Z',
+    uploader: { username: 'mai' }
+})
+
+describe('wallpaper meta', () => {
+    afterEach(() => {
+        document.head.innerHTML = ''
+        document.title = ''
+    })
+
+    it('describes the wallpaper for link previews', () => {
+        const tags = wallpaperMeta(wallpaper('a', ['rain', 'city']), 'https://app.test/wallpaper/a', 'https://app.test/a.jpg')
+        const byKey = Object.fromEntries(tags.map(tag => [tag.key, tag.content]))
+
+        expect(byKey['og:title']).toBe('Wallpaper a')
+        expect(byKey['og:description']).toBe('Live wallpaper by mai, tagged #rain #city.')
+        expect(byKey['og:image']).toBe('https://app.test/a.jpg')
+        expect(byKey['twitter:card']).toBe('summary_large_image')
+    })
+
+    it('falls back to a small card without an image', () => {
+        const tags = wallpaperMeta(wallpaper('a', []), 'https://app.test/wallpaper/a', null)
+        expect(tags.find(tag => tag.key === 'og:image')).toBeUndefined()
+        expect(tags.find(tag => tag.key === 'twitter:card')?.content).toBe('summary')
+    })
+
+    it('restores the previous title and tags', () => {
+        document.title = 'Wallpaper Live'
+        const existing = document.createElement('meta')
+        existing.setAttribute('name', 'description')
+        existing.content = 'App description'
+        document.head.appendChild(existing)
+
+        const restore = applyPageMeta('Rain', [
+            { attribute: 'name', key: 'description', content: 'Rainy city' },
+            { attribute: 'property', key: 'og:title', content: 'Rain' }
+        ])
+        expect(document.title).toBe('Rain')
+        expect(existing.content).toBe('Rainy city')
+        expect(document.head.querySelector('meta[property="og:title"]')).not.toBeNull()
+
+        restore()
+        expect(document.title).toBe('Wallpaper Live')
+        expect(existing.content).toBe('App description')
+        expect(document.head.querySelector('meta[property="og:title"]')).toBeNull()
+    })
+
+    it('builds share links that apply the wallpaper', () => {
+        expect(wallpaperShareUrl('https://app.test', 'a b')).toBe('https://app.test/?wallpaper=a%20b')
+    })
+})
+
+describe('rankRelated', () => {
+    it('prefers shared tags, then popularity, and skips the wallpaper itself', () => {
+        const target = wallpaper('t', ['rain', 'city', 'night'])
+        const candidates = [
+            target,
+            wallpaper('one-tag-popular', ['rain'], 900),
+            wallpaper('two-tags', ['rain', 'city'], 1),
+            wallpaper('one-tag', ['night'], 5)
+        ]
+        expect(rankRelated(target, candidates, 2).map(w => w.id)).toEqual(['two-tags', 'one-tag-popular'])
+    })
+})
+
+describe('media info formatting', () => {
+    it('formats sizes and lengths', () => {
+        expect(formatDimensions({ width: 3840, height: 2160, duration: null })).toBe('3840 × 2160')
+        expect(formatDimensions({ width: null, height: null, duration: null })).toBeNull()
+        expect(formatDuration(125.4)).toBe('2:05')
+        expect(formatDuration(null)).toBeNull()
+    })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import type { IWidgetInstance } from '../types/widgets'
+import {
+    clampWidget,
+    moveWidget,
+    parseWidgetLayout,
+    placeWidget,
+    resizeWidget
+} from '../utils/widgetLayout'
+import { monthGrid, splitDuration } from '../utils/calendar'
+
+const viewport = { width: 1000, height: 500 }
+const minSize = { width: 100, height: 50 }
+
+const widget = (overrides: Partial<IWidgetInstance> = {}): IWidgetInstance => ({
+    id: 'w1',
+    type: 'clock',
+    x: 0.1,
+    y: 0.1,
+    width: 200,
+    height: 100,
+    settings: {},
+    ...overrides
+})
+
+describe('widget layout', () => {
+    it('keeps widgets on screen and above their minimum size', () => {
+        const clamped = clampWidget(widget({ x: 0.95, y: -0.2, width: 20, height: 900 }), viewport, minSize)
+        expect(clamped.width).toBe(100)
+        expect(clamped.height).toBe(500)
+        expect(clamped.x).toBeCloseTo(0.9)
+        expect(clamped.y).toBe(0)
+    })
+
+    it('moves by a pixel delta', () => {
+        const moved = moveWidget(widget(), 100, 50, viewport, minSize)
+        expect(moved.x).toBeCloseTo(0.2)
+        expect(moved.y).toBeCloseTo(0.2)
+        expect(moved.width).toBe(200)
+    })
+
+    it('resizes from the corner without moving', () => {
+        const resized = resizeWidget(widget(), -150, 40, viewport, minSize)
+        expect(resized.width).toBe(100)
+        expect(resized.height).toBe(140)
+        expect(resized.x).toBe(0.1)
+    })
+
+    it('cascades new widgets instead of stacking them', () => {
+        const first = placeWidget('notes', { width: 200, height: 200 }, { text: '' }, [], viewport)
+        const second = placeWidget('notes', { width: 200, height: 200 }, { text: '' }, [first], viewport)
+        expect(first.x).toBeCloseTo(0.1)
+        expect(second.x).toBeCloseTo(0.13)
+        expect(second.id).not.toBe(first.id)
+    })
+
+    it('drops malformed entries from a stored layout', () => {
+        const layout = parseWidgetLayout([
+            widget(),
+            { type: 'clock', x: 'left', y: 0, width: 10, height: 10 },
+            null,
+            { type: 'notes', x: 0, y: 0, width: 10, height: 10 }
+        ])
+        expect(layout).toHaveLength(2)
+        expect(layout[1].settings).toEqual({})
+        expect(parseWidgetLayout('nope')).toEqual([])
+    })
+})
+
+describe('calendar helpers', () => {
+    it('builds a six week grid starting on Monday', () => {
+        // March 2024 starts on a Friday
+        const days = monthGrid(2024, 2, new Date(2024, 2, 15))
+        expect(days).toHaveLength(42)
+        expect(days[0].date.getDate()).toBe(26)
+        expect(days[0].inMonth).toBe(false)
+        expect(days[4].date.getDate()).toBe(1)
+        expect(days.filter(day => day.isToday)).toHaveLength(1)
+    })
+
+    it('splits a countdown into days, hours, minutes and seconds', () => {
+        const now = Date.UTC(2024, 0, 1)
+        const target = now + ((2 * 24 + 3) * 3600 + 4 * 60 + 5) * 1000
+        expect(splitDuration(target, now)).toEqual({ days: 2, hours: 3, minutes: 4, seconds: 5, done: false })
+        expect(splitDuration(now - 1000, now).done).toBe(true)
+    })
+})
@@ -0,0 +1,48 @@
+export type LayerBlendMode =
+    | 'normal'
+    | 'multiply'
+    | 'screen'
+    | 'overlay'
+    | 'soft-light'
+    | 'lighten'
+    | 'darken'
+    | 'color'
+
+export type WeatherOverlay = 'rain' | 'snow' | 'fog' | 'fireflies'
+
+interface ILayerBase {
+    id: string
+    opacity: number // 0 → 1
+    blend_mode: LayerBlendMode
+    visible: boolean
+}
+
+// The uploaded photo or video at the bottom of the stack
+export interface IMediaLayer extends ILayerBase {
+    type: 'media'
+    file_url: string
+    mime_type: string | null
+}
+
+// Flat color, or a linear gradient when gradient_to is set
+export interface ITintLayer extends ILayerBase {
+    type: 'tint'
+    color: string
+    gradient_to: string | null
+    gradient_angle: number // degrees
+}
+
+export interface IOverlayLayer extends ILayerBase {
+    type: 'overlay'
+    overlay: WeatherOverlay
+    intensity: number // 0 → 1
+}
+
+export type CompositionLayer = IMediaLayer | ITintLayer | IOverlayLayer
+
+export type CompositionLayerType = CompositionLayer['type']
+
+export interface IComposition {
+    version: number
+    layers: CompositionLayer[] // bottom to top
+}
@@ -0,0 +1,19 @@
+export type WallpaperFit = 'cover' | 'contain' | 'fill' | 'tile' | 'center'
+
+export interface IKenBurns {
+    enabled: boolean
+    duration: number // seconds per pan
+    zoom: number // end scale, e.g. 1.15
+}
+
+export interface IDisplaySettings {
+    fit: WallpaperFit
+    focal_x: number // 0 → 1, left to right
+    focal_y: number // 0 → 1, top to bottom
+    background_color: string
+    ken_burns: IKenBurns
+}
+
+export type DisplaySettingsPatch = Partial<Omit<IDisplaySettings, 'ken_burns'>> & {
+    ken_burns?: Partial<IKenBurns>
+}
@@ -0,0 +1,19 @@
+// How frames are placed on the day: by clock time, or by where the sun is
+export type DynamicMode = 'time' | 'solar'
+
+export interface IDynamicFrame {
+    id: string
+    file_url: string
+    mime_type: string | null
+    time: number // minutes after local midnight, used in 'time' mode
+    elevation: number // sun elevation in degrees, used in 'solar' mode
+    rising: boolean // morning (true) or evening (false) side of the elevation
+}
+
+export interface IDynamicSet {
+    version: number
+    mode: DynamicMode
+    latitude: number | null // required in 'solar' mode
+    longitude: number | null
+    frames: IDynamicFrame[]
+}
@@ -8,7 +8,7 @@ export interface ITrack {
     artist: string
     album: string
     file_url: string
-    thumbnail_url: string
+    thumbnail_url: string | null // embedded cover art, resized on upload
     duration: number
     file_size: number
     genre: string
@@ -0,0 +1,12 @@
+// Colors sampled from a wallpaper, all as #rrggbb
+export interface IPalette {
+    dominant: string // most common color
+    accent: string // most vivid color that differs clearly from the dominant one
+    average: string // mean of every sampled pixel
+}
+
+export interface IPanelTheme {
+    background: string
+    border: string
+    text: string
+}
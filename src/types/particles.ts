@@ -0,0 +1,47 @@
+export type SpawnShape = 'point' | 'line' | 'rect' | 'circle'
+
+// Dots are drawn as circles, streaks as lines along the velocity (e.g. rain)
+export type ParticleStyle = 'dot' | 'streak'
+
+export type Range = [number, number]
+
+export interface IParticleEmitter {
+    shape: SpawnShape
+    // Position and extent are normalized to the canvas (0 → 1)
+    x: number
+    y: number
+    width: number
+    height: number
+    radius: number
+    rate: number
+    lifetime: Range
+    speed: Range
+    angle: Range
+    size: Range
+    opacity: Range
+    colors: string[]
+    fadeOut: boolean
+}
+
+export interface IParticleScene {
+    version: number
+    background: string | null
+    particleCount: number
+    gravity: number
+    wind: number
+    particleStyle: ParticleStyle
+    emitters: IParticleEmitter[]
+}
+
+export interface IParticle {
+    x: number
+    y: number
+    vx: number
+    vy: number
+    age: number
+    life: number
+    size: number
+    opacity: number
+    color: string
+    fadeOut: boolean
+}
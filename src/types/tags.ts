@@ -0,0 +1,10 @@
+// A tag in use, as returned by the tag_counts RPC
+export interface ITagCount {
+    slug: string
+    label: string
+    hidden: boolean
+    wallpaper_count: number
+}
+
+// Alias slug → canonical tag slug
+export type TagAliases = Record<string, string>
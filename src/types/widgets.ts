@@ -0,0 +1,13 @@
+export interface IWidgetSize {
+    width: number // px
+    height: number // px
+}
+
+export interface IWidgetInstance extends IWidgetSize {
+    id: string
+    type: string
+    // Top-left corner as a fraction of the viewport, so layouts survive resizes
+    x: number
+    y: number
+    settings: Record<string, unknown>
+}
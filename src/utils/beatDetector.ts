@@ -0,0 +1,170 @@
+export interface BandLevels {
+    bass: number
+    mid: number
+    treble: number
+    energy: number
+}
+
+export interface BeatDetectorOptions {
+    sensitivity?: number // 0 → 1, higher fires on weaker beats
+    historySize?: number // frames of bass energy to average over
+    minInterval?: number // seconds between two beats
+    minEnergy?: number // ignore beats quieter than this
+}
+
+const BANDS = {
+    bass: [20, 250],
+    mid: [250, 4000],
+    treble: [4000, 16000]
+} as const
+
+export const SILENT_LEVELS: BandLevels = { bass: 0, mid: 0, treble: 0, energy: 0 }
+
+// In-place radix-2 FFT, the length must be a power of two
+export const fft = (real: Float32Array, imag: Float32Array) => {
+    const n = real.length
+    if (n === 0 || (n & (n - 1)) !== 0) {
+        throw new Error('FFT size must be a power of two')
+    }
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1
+        for (; j & bit; bit >>= 1) j ^= bit
+        j ^= bit
+        if (i < j) {
+            ;[real[i], real[j]] = [real[j], real[i]]
+            ;[imag[i], imag[j]] = [imag[j], imag[i]]
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = (-2 * Math.PI) / size
+        const half = size >> 1
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const cos = Math.cos(angle * k)
+                const sin = Math.sin(angle * k)
+                const a = start + k
+                const b = a + half
+                const tr = real[b] * cos - imag[b] * sin
+                const ti = real[b] * sin + imag[b] * cos
+                real[b] = real[a] - tr
+                imag[b] = imag[a] - ti
+                real[a] += tr
+                imag[a] += ti
+            }
+        }
+    }
+}
+
+// Hann-windowed magnitude spectrum, scaled so a full-scale sine peaks near 1
+export const magnitudeSpectrum = (frame: Float32Array) => {
+    const n = frame.length
+    const real = new Float32Array(n)
+    const imag = new Float32Array(n)
+    for (let i = 0; i < n; i++) {
+        real[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)))
+    }
+    fft(real, imag)
+
+    const magnitudes = new Float32Array(n / 2)
+    for (let i = 0; i < magnitudes.length; i++) {
+        magnitudes[i] = (Math.hypot(real[i], imag[i]) * 4) / n
+    }
+    return magnitudes
+}
+
+// Root mean square of the spectrum bins inside each band
+export const bandLevels = (spectrum: Float32Array, sampleRate: number): BandLevels => {
+    const binWidth = sampleRate / (spectrum.length * 2)
+
+    const level = ([low, high]: readonly [number, number]) => {
+        const from = Math.max(1, Math.floor(low / binWidth))
+        const to = Math.min(spectrum.length - 1, Math.ceil(high / binWidth))
+        if (to < from) return 0
+
+        let sum = 0
+        for (let i = from; i <= to; i++) sum += spectrum[i] * spectrum[i]
+        return Math.sqrt(sum / (to - from + 1))
+    }
+
+    const bass = level(BANDS.bass)
+    const mid = level(BANDS.mid)
+    const treble = level(BANDS.treble)
+    return { bass, mid, treble, energy: (bass + mid + treble) / 3 }
+}
+
+// Fast attack and slow release so effects snap to hits and then settle
+export const smoothLevels = (previous: BandLevels, next: BandLevels, release: number = 0.15): BandLevels => {
+    const smooth = (a: number, b: number) => (b >= a ? b : a + (b - a) * release)
+    return {
+        bass: smooth(previous.bass, next.bass),
+        mid: smooth(previous.mid, next.mid),
+        treble: smooth(previous.treble, next.treble),
+        energy: smooth(previous.energy, next.energy)
+    }
+}
+
+// A beat is bass energy well above its recent average
+export const createBeatDetector = (options: BeatDetectorOptions = {}) => {
+    const historySize = options.historySize ?? 43
+    const minInterval = options.minInterval ?? 0.25
+    const minEnergy = options.minEnergy ?? 0.02
+
+    let sensitivity = Math.min(1, Math.max(0, options.sensitivity ?? 0.5))
+    let history: number[] = []
+    let lastBeat = -Infinity
+
+    const threshold = () => 2 - sensitivity * 0.85
+
+    const process = (energy: number, time: number) => {
+        // Nothing to compare the very first frame with
+        const hasHistory = history.length > 0
+        const average = hasHistory ? history.reduce((sum, value) => sum + value, 0) / history.length : 0
+
+        history.push(energy)
+        if (history.length > historySize) history.shift()
+
+        const isBeat = hasHistory
+            && energy > minEnergy
+            && energy > average * threshold()
+            && time - lastBeat >= minInterval
+        if (isBeat) lastBeat = time
+        return isBeat
+    }
+
+    const setSensitivity = (value: number) => {
+        sensitivity = Math.min(1, Math.max(0, value))
+    }
+
+    const reset = () => {
+        history = []
+        lastBeat = -Infinity
+    }
+
+    return { process, setSensitivity, reset }
+}
+
+export type BeatDetector = ReturnType<typeof createBeatDetector>
+
+// Run the detector over a whole mono buffer and return the beat times in seconds
+export const detectBeats = (
+    samples: Float32Array,
+    sampleRate: number,
+    options: BeatDetectorOptions & { frameSize?: number } = {}
+) => {
+    const frameSize = options.frameSize ?? 1024
+    const detector = createBeatDetector({
+        historySize: Math.round(sampleRate / frameSize),
+        ...options
+    })
+
+    const beats: number[] = []
+    for (let offset = 0; offset + frameSize <= samples.length; offset += frameSize) {
+        const spectrum = magnitudeSpectrum(samples.subarray(offset, offset + frameSize))
+        const { bass } = bandLevels(spectrum, sampleRate)
+        const time = offset / sampleRate
+        if (detector.process(bass, time)) beats.push(time)
+    }
+    return beats
+}
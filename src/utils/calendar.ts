@@ -0,0 +1,47 @@
+export interface CalendarDay {
+    date: Date
+    inMonth: boolean
+    isToday: boolean
+}
+
+export interface DurationParts {
+    days: number
+    hours: number
+    minutes: number
+    seconds: number
+    done: boolean
+}
+
+const sameDay = (a: Date, b: Date) =>
+    a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate()
+
+// Six weeks covering a month, padded with days from the neighbouring months
+export const monthGrid = (year: number, month: number, today: Date = new Date(), weekStartsOn: number = 1) => {
+    const first = new Date(year, month, 1)
+    const lead = (first.getDay() - weekStartsOn + 7) % 7
+
+    const days: CalendarDay[] = []
+    for (let i = 0; i < 42; i++) {
+        const date = new Date(year, month, 1 - lead + i)
+        days.push({ date, inMonth: date.getMonth() === month, isToday: sameDay(date, today) })
+    }
+    return days
+}
+
+// Weekday names in display order, e.g. Mon → Sun
+export const weekdayLabels = (locale?: string, weekStartsOn: number = 1) => {
+    const formatter = new Intl.DateTimeFormat(locale, { weekday: 'narrow' })
+    // 2023-01-01 was a Sunday
+    return Array.from({ length: 7 }, (_, i) => formatter.format(new Date(2023, 0, 1 + ((weekStartsOn + i) % 7))))
+}
+
+export const splitDuration = (target: number, now: number): DurationParts => {
+    const remaining = Math.max(0, Math.floor((target - now) / 1000))
+    return {
+        days: Math.floor(remaining / 86400),
+        hours: Math.floor((remaining % 86400) / 3600),
+        minutes: Math.floor((remaining % 3600) / 60),
+        seconds: remaining % 60,
+        done: remaining === 0
+    }
+}
@@ -0,0 +1,136 @@
+import type { CSSProperties } from 'vue'
+import type {
+    CompositionLayer,
+    CompositionLayerType,
+    IComposition,
+    IMediaLayer,
+    ITintLayer,
+    LayerBlendMode,
+    WeatherOverlay
+} from '../types/composition'
+
+export const COMPOSITION_MIME_TYPE = 'application/vnd.wallpaper-composition+json'
+
+export const BLEND_MODES: LayerBlendMode[] = [
+    'normal',
+    'multiply',
+    'screen',
+    'overlay',
+    'soft-light',
+    'lighten',
+    'darken',
+    'color'
+]
+
+const WEATHER_OVERLAYS: WeatherOverlay[] = ['rain', 'snow', 'fog', 'fireflies']
+const MAX_LAYERS = 12
+
+let layerCounter = 0
+
+const layerId = () => `layer-${Date.now().toString(36)}-${(layerCounter++).toString(36)}`
+
+const toNumber = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const toUnit = (value: unknown, fallback: number) => Math.min(1, Math.max(0, toNumber(value, fallback)))
+
+const toColor = (value: unknown, fallback: string) => (typeof value === 'string' && value ? value : fallback)
+
+// New layer with sensible defaults for the editor
+export const createLayer = (type: CompositionLayerType): CompositionLayer => {
+    const base = { id: layerId(), opacity: 1, blend_mode: 'normal' as LayerBlendMode, visible: true }
+
+    switch (type) {
+        case 'media':
+            return { ...base, type, file_url: '', mime_type: null }
+        case 'tint':
+            return { ...base, type, opacity: 0.35, blend_mode: 'soft-light', color: '#1e3a8a', gradient_to: null, gradient_angle: 180 }
+        case 'overlay':
+            return { ...base, type, overlay: 'rain', intensity: 0.6 }
+    }
+}
+
+const parseLayer = (input: unknown, index: number): CompositionLayer => {
+    if (!input || typeof input !== 'object') {
+        throw new Error(`Layer ${index} must be an object`)
+    }
+    const raw = input as Record<string, unknown>
+
+    const base = {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : layerId(),
+        opacity: toUnit(raw.opacity, 1),
+        blend_mode: BLEND_MODES.includes(raw.blend_mode as LayerBlendMode) ? (raw.blend_mode as LayerBlendMode) : 'normal',
+        visible: raw.visible !== false
+    }
+
+    switch (raw.type) {
+        case 'media':
+            return {
+                ...base,
+                type: 'media',
+                file_url: typeof raw.file_url === 'string' ? raw.file_url : '',
+                mime_type: typeof raw.mime_type === 'string' ? raw.mime_type : null
+            }
+        case 'tint':
+            return {
+                ...base,
+                type: 'tint',
+                color: toColor(raw.color, '#000000'),
+                gradient_to: typeof raw.gradient_to === 'string' && raw.gradient_to ? raw.gradient_to : null,
+                gradient_angle: toNumber(raw.gradient_angle, 180)
+            }
+        case 'overlay': {
+            const overlay = raw.overlay as WeatherOverlay
+            if (!WEATHER_OVERLAYS.includes(overlay)) {
+                throw new Error(`Layer ${index} has unknown overlay "${String(raw.overlay)}"`)
+            }
+            return { ...base, type: 'overlay', overlay, intensity: toUnit(raw.intensity, 0.6) }
+        }
+        default:
+            throw new Error(`Layer ${index} has unknown type "${String(raw.type)}"`)
+    }
+}
+
+// Validate a composition stored on a wallpaper row
+export const parseComposition = (input: unknown): IComposition => {
+    if (!input || typeof input !== 'object') {
+        throw new Error('Composition must be an object')
+    }
+    const raw = input as Record<string, unknown>
+
+    if (!Array.isArray(raw.layers) || raw.layers.length === 0) {
+        throw new Error('Composition needs at least one layer')
+    }
+    if (raw.layers.length > MAX_LAYERS) {
+        throw new Error(`Composition can have at most ${MAX_LAYERS} layers`)
+    }
+
+    const layers = raw.layers.map(parseLayer)
+    if (layers.filter(layer => layer.type === 'media').length > 1) {
+        throw new Error('Composition can have only one media layer')
+    }
+
+    return { version: toNumber(raw.version, 1), layers }
+}
+
+export const findMediaLayer = (composition: IComposition) =>
+    (composition.layers.find(layer => layer.type === 'media') as IMediaLayer | undefined) || null
+
+// Point the media layer at the uploaded file
+export const withMediaSource = (composition: IComposition, fileUrl: string, mimeType: string): IComposition => ({
+    ...composition,
+    layers: composition.layers.map(layer =>
+        layer.type === 'media' ? { ...layer, file_url: fileUrl, mime_type: mimeType } : layer
+    )
+})
+
+export const layerStyle = (layer: CompositionLayer): CSSProperties => ({
+    opacity: layer.opacity,
+    mixBlendMode: layer.blend_mode,
+    display: layer.visible ? undefined : 'none'
+})
+
+export const tintBackground = (layer: ITintLayer) =>
+    layer.gradient_to
+        ? `linear-gradient(${layer.gradient_angle}deg, ${layer.color}, ${layer.gradient_to})`
+        : layer.color
@@ -0,0 +1,23 @@
+import { debounce } from './general'
+
+// Tallies increments per id and hands them over together once `wait` ms pass without a new one
+export const createCounterBatch = (send: (counts: Record<string, number>) => void, wait: number) => {
+    let pending: Record<string, number> = {}
+
+    const flush = () => {
+        sendSoon.cancel()
+        if (Object.keys(pending).length === 0) return
+        const counts = pending
+        pending = {}
+        send(counts)
+    }
+
+    const sendSoon = debounce(flush, wait)
+
+    const add = (id: string, amount: number = 1) => {
+        pending[id] = (pending[id] ?? 0) + amount
+        sendSoon()
+    }
+
+    return { add, flush }
+}
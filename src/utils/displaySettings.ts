@@ -0,0 +1,88 @@
+import type { CSSProperties } from 'vue'
+import type { DisplaySettingsPatch, IDisplaySettings, WallpaperFit } from '../types/display'
+
+export const DEFAULT_DISPLAY_SETTINGS: IDisplaySettings = {
+    fit: 'cover',
+    focal_x: 0.5,
+    focal_y: 0.5,
+    background_color: '#000000',
+    ken_burns: {
+        enabled: false,
+        duration: 30,
+        zoom: 1.15
+    }
+}
+
+const FITS: WallpaperFit[] = ['cover', 'contain', 'fill', 'tile', 'center']
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+// Apply a partial patch on top of complete settings, ignoring invalid values
+export const mergeDisplaySettings = (
+    base: IDisplaySettings,
+    patch?: DisplaySettingsPatch | null
+): IDisplaySettings => {
+    if (!patch) return base
+
+    return {
+        fit: patch.fit && FITS.includes(patch.fit) ? patch.fit : base.fit,
+        focal_x: isNumber(patch.focal_x) ? clamp(patch.focal_x, 0, 1) : base.focal_x,
+        focal_y: isNumber(patch.focal_y) ? clamp(patch.focal_y, 0, 1) : base.focal_y,
+        background_color: patch.background_color || base.background_color,
+        ken_burns: {
+            enabled: patch.ken_burns?.enabled ?? base.ken_burns.enabled,
+            duration: isNumber(patch.ken_burns?.duration)
+                ? clamp(patch.ken_burns.duration, 5, 300)
+                : base.ken_burns.duration,
+            zoom: isNumber(patch.ken_burns?.zoom)
+                ? clamp(patch.ken_burns.zoom, 1, 2)
+                : base.ken_burns.zoom
+        }
+    }
+}
+
+// Later patches win: wallpaper defaults, then user defaults, then user overrides
+export const resolveDisplaySettings = (...patches: (DisplaySettingsPatch | null | undefined)[]) => {
+    return patches.reduce<IDisplaySettings>(mergeDisplaySettings, DEFAULT_DISPLAY_SETTINGS)
+}
+
+// Combine two partial patches, keeping nested Ken Burns fields from both
+export const combineDisplayPatches = (
+    base: DisplaySettingsPatch | null | undefined,
+    patch: DisplaySettingsPatch
+): DisplaySettingsPatch => ({
+    ...base,
+    ...patch,
+    ken_burns: { ...base?.ken_burns, ...patch.ken_burns }
+})
+
+const focalPosition = (settings: IDisplaySettings) =>
+    `${Math.round(settings.focal_x * 100)}% ${Math.round(settings.focal_y * 100)}%`
+
+// Style for an <img> or <video> element
+export const mediaStyle = (settings: IDisplaySettings): CSSProperties => {
+    const objectFit = settings.fit === 'center' || settings.fit === 'tile' ? 'none' : settings.fit
+    return {
+        objectFit,
+        objectPosition: focalPosition(settings)
+    }
+}
+
+// Style for a tiled background, only possible for still images
+export const tileStyle = (url: string, settings: IDisplaySettings): CSSProperties => ({
+    backgroundImage: `url("${url}")`,
+    backgroundRepeat: 'repeat',
+    backgroundPosition: focalPosition(settings)
+})
+
+// Slow pan and zoom towards the focal point (keyframes live in style.css)
+export const kenBurnsStyle = (settings: IDisplaySettings): CSSProperties => {
+    if (!settings.ken_burns.enabled) return {}
+    return {
+        transformOrigin: focalPosition(settings),
+        animation: `ken-burns ${settings.ken_burns.duration}s ease-in-out infinite alternate`,
+        '--ken-burns-zoom': String(settings.ken_burns.zoom)
+    } as CSSProperties
+}
@@ -0,0 +1,49 @@
+// Files from a drag and drop, walking into dropped folders. Hidden files (.DS_Store and the like)
+// are skipped and folder contents come back in name order, so numbered frames stay in sequence.
+
+const byName = (a: FileSystemEntry, b: FileSystemEntry) =>
+    a.name.localeCompare(b.name, undefined, { numeric: true })
+
+// Directory readers hand out entries in batches until one comes back empty
+const readEntries = (directory: FileSystemDirectoryEntry) => {
+    const reader = directory.createReader()
+    return new Promise<FileSystemEntry[]>((resolve, reject) => {
+        const entries: FileSystemEntry[] = []
+        const next = () =>
+            reader.readEntries(batch => {
+                if (batch.length === 0) return resolve(entries.sort(byName))
+                entries.push(...batch)
+                next()
+            }, reject)
+        next()
+    })
+}
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+
+export const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.name.startsWith('.')) return []
+    if (entry.isFile) return [await readFile(entry as FileSystemFileEntry)]
+    if (!entry.isDirectory) return []
+
+    const children = await readEntries(entry as FileSystemDirectoryEntry)
+    const files: File[] = []
+    // One at a time, a large folder would otherwise open every file at once
+    for (const child of children) files.push(...(await collectEntryFiles(child)))
+    return files
+}
+
+export const collectDroppedFiles = async (dataTransfer: DataTransfer) => {
+    // Entries have to be taken while the drop event is being handled, before anything is awaited
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry?.() ?? null)
+
+    if (entries.length === 0 || entries.some(entry => !entry)) {
+        return Array.from(dataTransfer.files).filter(file => !file.name.startsWith('.'))
+    }
+
+    const files: File[] = []
+    for (const entry of entries as FileSystemEntry[]) files.push(...(await collectEntryFiles(entry)))
+    return files
+}
@@ -0,0 +1,94 @@
+import type { Wallpaper } from '../composables/useWallpaper'
+import { frameSetDistance } from './perceptualHash'
+import type { MediaFingerprint } from './perceptualHash'
+
+// Bits out of 64 that may differ for two wallpapers to count as the same picture
+export const NEAR_DUPLICATE_DISTANCE = 10
+
+export interface DuplicateMatch {
+    wallpaper: Wallpaper
+    exact: boolean // byte-identical file
+    distance: number // 0 for exact matches
+}
+
+// A pair from duplicate_wallpaper_pairs in supabase-schema.sql
+export interface DuplicatePair {
+    wallpaper_id: string
+    duplicate_id: string
+    distance: number
+}
+
+export interface DuplicateCluster {
+    original: Wallpaper // the earliest upload
+    duplicates: DuplicateMatch[]
+}
+
+export const compareFingerprints = (a: MediaFingerprint, b: MediaFingerprint) => {
+    if (a.content_hash && a.content_hash === b.content_hash) return { exact: true, distance: 0 }
+    return { exact: false, distance: frameSetDistance(a.perceptual_hashes ?? [], b.perceptual_hashes ?? []) }
+}
+
+const byCloseness = (a: DuplicateMatch, b: DuplicateMatch) =>
+    Number(b.exact) - Number(a.exact) || a.distance - b.distance
+
+// Candidates that really are duplicates of the fingerprint, exact matches first then the closest
+export const rankDuplicates = (
+    fingerprint: MediaFingerprint,
+    candidates: Wallpaper[],
+    maxDistance: number = NEAR_DUPLICATE_DISTANCE
+): DuplicateMatch[] =>
+    candidates
+        .map(wallpaper => ({ wallpaper, ...compareFingerprints(fingerprint, wallpaper) }))
+        .filter((match): match is DuplicateMatch => match.distance !== null && match.distance <= maxDistance)
+        .sort(byCloseness)
+
+// Connected groups of ids, linking a-b and b-c puts a, b and c together
+export const clusterPairs = (pairs: DuplicatePair[]) => {
+    const parents = new Map<string, string>()
+    const find = (id: string): string => {
+        const parent = parents.get(id) ?? id
+        if (parent === id) return id
+        const root = find(parent)
+        parents.set(id, root)
+        return root
+    }
+
+    for (const { wallpaper_id, duplicate_id } of pairs) {
+        for (const id of [wallpaper_id, duplicate_id]) {
+            if (!parents.has(id)) parents.set(id, id)
+        }
+        parents.set(find(wallpaper_id), find(duplicate_id))
+    }
+
+    const clusters = new Map<string, string[]>()
+    for (const id of parents.keys()) {
+        const root = find(id)
+        clusters.set(root, [...(clusters.get(root) ?? []), id])
+    }
+    return Array.from(clusters.values())
+}
+
+// Clusters with the earliest upload as the original and the rest measured against it,
+// largest clusters first. Ids without a loaded wallpaper are left out.
+export const duplicateClusters = (pairs: DuplicatePair[], wallpapers: Wallpaper[]): DuplicateCluster[] => {
+    const byId = new Map(wallpapers.map(wallpaper => [wallpaper.id, wallpaper]))
+
+    return clusterPairs(pairs)
+        .map(ids =>
+            ids
+                .map(id => byId.get(id))
+                .filter((wallpaper): wallpaper is Wallpaper => !!wallpaper)
+                .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        )
+        .filter(members => members.length > 1)
+        .map(([original, ...rest]) => ({
+            original,
+            duplicates: rest
+                .map(wallpaper => {
+                    const { exact, distance } = compareFingerprints(original, wallpaper)
+                    return { wallpaper, exact, distance: distance ?? NEAR_DUPLICATE_DISTANCE }
+                })
+                .sort(byCloseness)
+        }))
+        .sort((a, b) => b.duplicates.length - a.duplicates.length)
+}
@@ -0,0 +1,160 @@
+import type { DynamicMode, IDynamicFrame, IDynamicSet } from '../types/dynamic'
+import { fromSolarCycle, solarCycle, sunPosition } from './solar'
+
+export const DYNAMIC_MIME_TYPE = 'application/vnd.wallpaper-dynamic+json'
+
+export interface FrameBlend {
+    from: IDynamicFrame
+    to: IDynamicFrame
+    mix: number // 0 shows only `from`, 1 only `to`
+}
+
+const MINUTES_PER_DAY = 1440
+const SOLAR_PERIOD = 360
+export const MAX_FRAMES = 24
+const MODES: DynamicMode[] = ['time', 'solar']
+
+let frameCounter = 0
+
+const frameId = () => `frame-${Date.now().toString(36)}-${(frameCounter++).toString(36)}`
+
+const toNumber = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+const wrap = (value: number, period: number) => ((value % period) + period) % period
+
+const periodFor = (mode: DynamicMode) => (mode === 'time' ? MINUTES_PER_DAY : SOLAR_PERIOD)
+
+// "HH:MM" for a number of minutes after midnight
+export const formatTimeOfDay = (minutes: number) => {
+    const value = Math.round(wrap(minutes, MINUTES_PER_DAY))
+    const hours = Math.floor(value / 60) % 24
+    return `${String(hours).padStart(2, '0')}:${String(value % 60).padStart(2, '0')}`
+}
+
+export const parseTimeOfDay = (text: string) => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim())
+    if (!match) return null
+    const hours = Number(match[1])
+    const minutes = Number(match[2])
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : null
+}
+
+// Spread new frames evenly over the day, starting at dawn
+export const createFrames = (sources: { file_url: string, mime_type: string | null }[]): IDynamicFrame[] =>
+    sources.map((source, index) => {
+        const share = index / sources.length
+        const sun = fromSolarCycle(SOLAR_PERIOD * share + 90)
+        return {
+            id: frameId(),
+            file_url: source.file_url,
+            mime_type: source.mime_type,
+            time: Math.round(wrap(6 * 60 + MINUTES_PER_DAY * share, MINUTES_PER_DAY)),
+            elevation: Math.round(sun.elevation),
+            rising: sun.rising
+        }
+    })
+
+const parseFrame = (input: unknown, index: number): IDynamicFrame => {
+    if (!input || typeof input !== 'object') {
+        throw new Error(`Frame ${index} must be an object`)
+    }
+    const raw = input as Record<string, unknown>
+
+    return {
+        id: typeof raw.id === 'string' && raw.id ? raw.id : frameId(),
+        file_url: typeof raw.file_url === 'string' ? raw.file_url : '',
+        mime_type: typeof raw.mime_type === 'string' ? raw.mime_type : null,
+        time: wrap(toNumber(raw.time, 0), MINUTES_PER_DAY),
+        elevation: clamp(toNumber(raw.elevation, 0), -90, 90),
+        rising: raw.rising !== false
+    }
+}
+
+// Validate a dynamic set stored on a wallpaper row
+export const parseDynamicSet = (input: unknown): IDynamicSet => {
+    if (!input || typeof input !== 'object') {
+        throw new Error('Dynamic wallpaper must be an object')
+    }
+    const raw = input as Record<string, unknown>
+
+    const mode = raw.mode as DynamicMode
+    if (!MODES.includes(mode)) {
+        throw new Error(`Unknown dynamic mode "${String(raw.mode)}"`)
+    }
+    if (!Array.isArray(raw.frames) || raw.frames.length === 0) {
+        throw new Error('Dynamic wallpaper needs at least one frame')
+    }
+    if (raw.frames.length > MAX_FRAMES) {
+        throw new Error(`Dynamic wallpaper can have at most ${MAX_FRAMES} frames`)
+    }
+
+    const latitude = typeof raw.latitude === 'number' ? clamp(raw.latitude, -90, 90) : null
+    const longitude = typeof raw.longitude === 'number' ? clamp(raw.longitude, -180, 180) : null
+    if (mode === 'solar' && (latitude === null || longitude === null)) {
+        throw new Error('Solar mode needs a latitude and longitude')
+    }
+
+    return {
+        version: toNumber(raw.version, 1),
+        mode,
+        latitude,
+        longitude,
+        frames: raw.frames.map(parseFrame)
+    }
+}
+
+// Where a frame sits on the day, in the mode's own unit
+export const framePosition = (frame: IDynamicFrame, mode: DynamicMode) =>
+    mode === 'time' ? frame.time : solarCycle(frame.elevation, frame.rising)
+
+// Where the day is right now, in the same unit as framePosition
+export const dayPosition = (set: IDynamicSet, date: Date) => {
+    if (set.mode === 'time') {
+        return date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60
+    }
+    const sun = sunPosition(date, set.latitude ?? 0, set.longitude ?? 0)
+    return solarCycle(sun.elevation, sun.rising)
+}
+
+// The two frames around `value` on a repeating cycle and how far along between them we are
+export const cyclicBlend = (positions: number[], value: number, period: number) => {
+    if (positions.length === 0) return null
+
+    const order = positions
+        .map((position, index) => ({ position: wrap(position, period), index }))
+        .sort((a, b) => a.position - b.position)
+    const current = wrap(value, period)
+
+    // Last frame at or before now, wrapping to the latest frame of the previous cycle
+    let fromIndex = order.length - 1
+    for (let i = 0; i < order.length; i++) {
+        if (order[i].position <= current) fromIndex = i
+    }
+    const from = order[fromIndex]
+    const to = order[(fromIndex + 1) % order.length]
+
+    const span = wrap(to.position - from.position, period) || period
+    const mix = from.index === to.index ? 0 : wrap(current - from.position, period) / span
+
+    return { from: from.index, to: to.index, mix: clamp(mix, 0, 1) }
+}
+
+export const dynamicBlend = (set: IDynamicSet, date: Date): FrameBlend | null => {
+    const positions = set.frames.map(frame => framePosition(frame, set.mode))
+    const blend = cyclicBlend(positions, dayPosition(set, date), periodFor(set.mode))
+    if (!blend) return null
+
+    return { from: set.frames[blend.from], to: set.frames[blend.to], mix: blend.mix }
+}
+
+// Point each frame at its uploaded file, in order
+export const withFrameSources = (
+    set: IDynamicSet,
+    sources: { file_url: string, mime_type: string | null }[]
+): IDynamicSet => ({
+    ...set,
+    frames: set.frames.map((frame, index) => ({ ...frame, ...sources[index] }))
+})
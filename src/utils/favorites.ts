@@ -0,0 +1,17 @@
+// Add or remove one id; returns the same array when nothing changes
+export const applyFavoriteChange = (ids: string[], wallpaperId: string, favorite: boolean) => {
+    const has = ids.includes(wallpaperId)
+    if (has === favorite) return ids
+    return favorite ? [...ids, wallpaperId] : ids.filter(id => id !== wallpaperId)
+}
+
+// Favorites read back from localStorage, dropping anything that isn't an id and duplicates
+export const parseFavoriteIds = (input: unknown): string[] => {
+    if (!Array.isArray(input)) return []
+    return [...new Set(input.filter((id): id is string => typeof id === 'string' && id.length > 0))]
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Only uploaded wallpapers can be saved to an account, built-in ones like the default video have other ids
+export const isUploadedWallpaperId = (id: string) => UUID_PATTERN.test(id)
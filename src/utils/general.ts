@@ -0,0 +1,19 @@
+// Delay calls until `wait` ms have passed without another call
+export const debounce = <Args extends unknown[]>(fn: (...args: Args) => void, wait: number) => {
+    let timer: ReturnType<typeof setTimeout> | null = null
+
+    const debounced = (...args: Args) => {
+        if (timer) clearTimeout(timer)
+        timer = setTimeout(() => {
+            timer = null
+            fn(...args)
+        }, wait)
+    }
+
+    debounced.cancel = () => {
+        if (timer) clearTimeout(timer)
+        timer = null
+    }
+
+    return debounced
+}
@@ -0,0 +1,110 @@
+// Embedded artwork from ID3v2 tags, the metadata block at the start of most MP3 files.
+// Other containers (FLAC, M4A) keep covers elsewhere and read as having none.
+
+export interface EmbeddedPicture {
+    mimeType: string
+    pictureType: number // 3 is the front cover
+    data: Uint8Array<ArrayBuffer>
+}
+
+const HEADER_SIZE = 10
+const FRONT_COVER = 3
+const PICTURE_FORMATS: Record<string, string> = { JPG: 'image/jpeg', PNG: 'image/png' }
+
+const syncsafe = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] & 0x7f) << 21) |
+    ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) |
+    (bytes[offset + 3] & 0x7f)
+
+const uint = (bytes: Uint8Array, offset: number, length: number) => {
+    let value = 0
+    for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i]
+    return value
+}
+
+const latin1 = (bytes: Uint8Array, start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end))
+
+// Index just past a text terminator: one zero byte, or two aligned ones for UTF-16 encodings (1 and 2)
+const skipText = (bytes: Uint8Array, offset: number, encoding: number) => {
+    if (encoding === 1 || encoding === 2) {
+        for (let i = offset; i + 1 < bytes.length; i += 2) {
+            if (bytes[i] === 0 && bytes[i + 1] === 0) return i + 2
+        }
+        return bytes.length
+    }
+    const end = bytes.indexOf(0, offset)
+    return end === -1 ? bytes.length : end + 1
+}
+
+// Bytes the whole tag takes, header included, from the first 10 bytes of a file; 0 without a tag
+export const id3TagSize = (header: Uint8Array) =>
+    header.length >= HEADER_SIZE && latin1(header, 0, 3) === 'ID3' ? HEADER_SIZE + syncsafe(header, 6) : 0
+
+const parsePicture = (body: Uint8Array, version: number): EmbeddedPicture | null => {
+    const encoding = body[0]
+    let offset: number
+    let mimeType: string
+
+    if (version === 2) {
+        // PIC frames name a three letter image format instead of a MIME type
+        mimeType = PICTURE_FORMATS[latin1(body, 1, 4).toUpperCase()] ?? ''
+        offset = 4
+    } else {
+        const end = skipText(body, 1, 0)
+        mimeType = latin1(body, 1, end - 1).toLowerCase()
+        offset = end
+    }
+
+    const pictureType = body[offset]
+    offset = skipText(body, offset + 1, encoding)
+
+    if (mimeType === 'image/jpg') mimeType = 'image/jpeg'
+    // '-->' marks a link to an image rather than the image itself
+    if (!mimeType.startsWith('image/') || offset >= body.length) return null
+    return { mimeType, pictureType, data: body.slice(offset) }
+}
+
+// Every picture in an ID3v2.2, 2.3 or 2.4 tag
+export const readId3Pictures = (tag: Uint8Array): EmbeddedPicture[] => {
+    const size = id3TagSize(tag)
+    if (!size) return []
+
+    const version = tag[3]
+    const flags = tag[5]
+    // Whole-tag unsynchronisation rewrites frame bytes, skip those rare tags rather than decode them
+    if (version < 2 || version > 4 || flags & 0x80) return []
+
+    const end = Math.min(size, tag.length)
+    const idLength = version === 2 ? 3 : 4
+    const frameHeaderSize = version === 2 ? 6 : 10
+    let offset = HEADER_SIZE
+
+    if (version > 2 && flags & 0x40) {
+        // Extended header: v2.4 counts its own size field, v2.3 doesn't
+        offset += version === 4 ? syncsafe(tag, offset) : uint(tag, offset, 4) + 4
+    }
+
+    const pictures: EmbeddedPicture[] = []
+    while (offset + frameHeaderSize <= end && tag[offset] !== 0) {
+        const id = latin1(tag, offset, offset + idLength)
+        const frameSize =
+            version === 2 ? uint(tag, offset + 3, 3) : version === 4 ? syncsafe(tag, offset + 4) : uint(tag, offset + 4, 4)
+        const bodyStart = offset + frameHeaderSize
+        if (frameSize <= 0 || bodyStart + frameSize > end) break
+
+        if (id === 'APIC' || id === 'PIC') {
+            const picture = parsePicture(tag.subarray(bodyStart, bodyStart + frameSize), version)
+            if (picture) pictures.push(picture)
+        }
+        offset = bodyStart + frameSize
+    }
+    return pictures
+}
+
+// The front cover, or the first picture when none is marked as such
+export const readId3Cover = (tag: Uint8Array) => {
+    const pictures = readId3Pictures(tag)
+    return pictures.find(picture => picture.pictureType === FRONT_COVER) ?? pictures[0] ?? null
+}
@@ -0,0 +1,112 @@
+// Cuts EXIF, XMP and text metadata out of an image without decoding it, for when re-encoding isn't possible.
+// Orientation tags go with the rest, so a photo relying on one may show up rotated.
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+
+const readUint32LE = (bytes: Uint8Array, offset: number) =>
+    (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0
+
+const writeUint32LE = (bytes: Uint8Array, offset: number, value: number) => {
+    bytes[offset] = value & 0xff
+    bytes[offset + 1] = (value >>> 8) & 0xff
+    bytes[offset + 2] = (value >>> 16) & 0xff
+    bytes[offset + 3] = (value >>> 24) & 0xff
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length))
+
+const concat = (parts: Uint8Array[]) => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+        result.set(part, offset)
+        offset += part.length
+    }
+    return result
+}
+
+// APP1 holds EXIF and XMP, APP13 IPTC; JFIF, ICC profiles and the Adobe color marker stay
+const JPEG_METADATA_MARKERS = [0xe1, 0xed, 0xfe]
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP ']
+
+const stripJpeg = (bytes: Uint8Array) => {
+    const parts = [bytes.subarray(0, 2)]
+    let offset = 2
+    while (offset + 4 <= bytes.length) {
+        if (bytes[offset] !== 0xff) return null
+        const marker = bytes[offset + 1]
+        if (marker === 0xff) {
+            offset++ // fill byte
+            continue
+        }
+        // The compressed image data follows the start of scan, everything from there on is kept
+        if (marker === 0xda) {
+            parts.push(bytes.subarray(offset))
+            return concat(parts)
+        }
+        const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+        if (end > bytes.length) return null
+        if (!JPEG_METADATA_MARKERS.includes(marker)) parts.push(bytes.subarray(offset, end))
+        offset = end
+    }
+    return null
+}
+
+const stripPng = (bytes: Uint8Array) => {
+    const parts = [bytes.subarray(0, 8)]
+    let offset = 8
+    while (offset + 12 <= bytes.length) {
+        const end = offset + 12 + readUint32(bytes, offset)
+        if (end > bytes.length) return null
+        const type = ascii(bytes, offset + 4, 4)
+        if (!PNG_METADATA_CHUNKS.includes(type)) parts.push(bytes.subarray(offset, end))
+        if (type === 'IEND') return concat(parts)
+        offset = end
+    }
+    return null
+}
+
+const stripWebp = (bytes: Uint8Array) => {
+    const parts: Uint8Array[] = [bytes.slice(0, 12)]
+    let offset = 12
+    while (offset + 8 <= bytes.length) {
+        const size = readUint32LE(bytes, offset + 4)
+        const end = Math.min(offset + 8 + size + (size % 2), bytes.length)
+        if (offset + 8 + size > bytes.length) return null
+        const type = ascii(bytes, offset, 4)
+        if (type === 'VP8X') {
+            // The extended header flags which metadata chunks follow
+            const header = bytes.slice(offset, end)
+            header[8] &= ~0x0c
+            parts.push(header)
+        } else if (!WEBP_METADATA_CHUNKS.includes(type)) {
+            parts.push(bytes.subarray(offset, end))
+        }
+        offset = end
+    }
+    const result = concat(parts)
+    writeUint32LE(result, 4, result.length - 8)
+    return result
+}
+
+// The same image without its metadata, or null when the format isn't one this can take apart
+export const stripImageMetadata = async (file: File) => {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+
+    let stripped: Uint8Array<ArrayBuffer> | null = null
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+        stripped = stripJpeg(bytes)
+    } else if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') {
+        stripped = stripPng(bytes)
+    } else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+        stripped = stripWebp(bytes)
+    } else if (ascii(bytes, 0, 2) === 'BM') {
+        // Bitmaps have nowhere to keep metadata
+        return file
+    }
+
+    return stripped ? new File([stripped], file.name, { type: file.type }) : null
+}
@@ -0,0 +1,219 @@
+import { sniffFileMimeType } from './mediaTypes'
+import { stripImageMetadata } from './imageMetadata'
+
+// Still images are re-encoded before upload: scaled down to a maximum size and saved as WebP or AVIF.
+// Redrawing the pixels leaves EXIF blocks, GPS position included, behind.
+
+export type OptimizedFormat = 'image/webp' | 'image/avif'
+
+export interface OptimizeOptions {
+    maxEdge: number // longest side in pixels
+    format: OptimizedFormat
+    quality: number // 0 to 1
+}
+
+export interface OptimizationSettings extends OptimizeOptions {
+    enabled: boolean
+    keepOriginal: boolean // upload the untouched file next to the optimized one
+}
+
+export interface OptimizedImage {
+    file: File
+    width: number
+    height: number
+    originalWidth: number
+    originalHeight: number
+}
+
+// Messages between the page and imageOptimizer.worker.ts
+export interface OptimizeRequest {
+    id: number
+    image: Blob
+    options: OptimizeOptions
+}
+
+export type OptimizeResponse =
+    | { id: number, blob: Blob, width: number, height: number, originalWidth: number, originalHeight: number }
+    | { id: number, error: string }
+
+export const MAX_EDGE_CHOICES = [1920, 2560, 3840, 5120]
+
+export const DEFAULT_OPTIMIZATION_SETTINGS: OptimizationSettings = {
+    enabled: true,
+    keepOriginal: false,
+    maxEdge: 3840,
+    format: 'image/webp',
+    quality: 0.85
+}
+
+// Animated images would lose every frame but the first
+const OPTIMIZABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/bmp']
+
+const EXTENSIONS: Record<OptimizedFormat, string> = { 'image/webp': 'webp', 'image/avif': 'avif' }
+
+// Scale down so the longest side fits, never up
+export const fitWithin = (width: number, height: number, maxEdge: number) => {
+    const scale = Math.min(1, maxEdge / Math.max(width, height))
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+export const optimizedFileName = (name: string, format: OptimizedFormat) =>
+    `${name.replace(/\.[^.]+$/, '')}.${EXTENSIONS[format]}`
+
+// Share of the original size saved, negative when the result is larger
+export const sizeSaving = (originalSize: number, optimizedSize: number) =>
+    originalSize > 0 ? 1 - optimizedSize / originalSize : 0
+
+export const canOptimizeFile = async (file: File) => {
+    const sniffed = await sniffFileMimeType(file)
+    return !!sniffed && OPTIMIZABLE_TYPES.includes(sniffed.mimeType) && !sniffed.animated
+}
+
+// Decode, scale and encode; runs in the worker, or on the page where workers can't use canvases
+export const encodeImage = async (image: Blob, options: OptimizeOptions) => {
+    // Applying the EXIF orientation while decoding keeps photos upright once the metadata is gone
+    const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' })
+    try {
+        const size = fitWithin(bitmap.width, bitmap.height, options.maxEdge)
+        const canvas = new OffscreenCanvas(size.width, size.height)
+        const ctx = canvas.getContext('2d')
+        if (!ctx) throw new Error('Canvas is not available')
+
+        ctx.imageSmoothingQuality = 'high'
+        ctx.drawImage(bitmap, 0, 0, size.width, size.height)
+        const blob = await canvas.convertToBlob({ type: options.format, quality: options.quality })
+        // Browsers without an encoder for the format hand back a PNG instead
+        if (blob.type !== options.format) throw new Error(`This browser can't encode ${EXTENSIONS[options.format].toUpperCase()}`)
+
+        return { blob, ...size, originalWidth: bitmap.width, originalHeight: bitmap.height }
+    } finally {
+        bitmap.close()
+    }
+}
+
+const encoderSupport = new Map<OptimizedFormat, Promise<boolean>>()
+
+// Whether this browser can write the format, AVIF encoding in particular is far from everywhere
+export const canEncode = (format: OptimizedFormat) => {
+    let supported = encoderSupport.get(format)
+    if (!supported) {
+        supported =
+            typeof OffscreenCanvas === 'undefined'
+                ? Promise.resolve(false)
+                : new OffscreenCanvas(1, 1)
+                    .convertToBlob({ type: format })
+                    .then(blob => blob.type === format)
+                    .catch(() => false)
+        encoderSupport.set(format, supported)
+    }
+    return supported
+}
+
+// A huge photo encoded to AVIF on a slow machine can take a while, but not this long
+const WORKER_TIMEOUT_MS = 60000
+
+let worker: Worker | null = null
+let nextRequest = 0
+const pending = new Map<number, { resolve: (response: OptimizeResponse) => void, reject: (error: Error) => void }>()
+
+// A worker that failed to load, crashed or hung takes every request it holds with it; the next one starts fresh
+const failWorker = (error: Error) => {
+    worker?.terminate()
+    worker = null
+    for (const request of pending.values()) request.reject(error)
+    pending.clear()
+}
+
+// One worker for every image, started on first use
+const encodeInWorker = (image: Blob, options: OptimizeOptions) => {
+    if (!worker) {
+        worker = new Worker(new URL('../workers/imageOptimizer.worker.ts', import.meta.url), { type: 'module' })
+        worker.onmessage = (event: MessageEvent<OptimizeResponse>) => {
+            pending.get(event.data.id)?.resolve(event.data)
+            pending.delete(event.data.id)
+        }
+        worker.onerror = event => {
+            event.preventDefault()
+            failWorker(new Error(event.message || 'Image optimization worker failed'))
+        }
+        worker.onmessageerror = () => failWorker(new Error('Image optimization worker sent an unreadable reply'))
+    }
+
+    const id = ++nextRequest
+    const response = new Promise<OptimizeResponse>((resolve, reject) => {
+        const timeout = setTimeout(() => failWorker(new Error('Image optimization timed out')), WORKER_TIMEOUT_MS)
+        pending.set(id, {
+            resolve: response => {
+                clearTimeout(timeout)
+                resolve(response)
+            },
+            reject: error => {
+                clearTimeout(timeout)
+                reject(error)
+            }
+        })
+    })
+    try {
+        worker.postMessage({ id, image, options } satisfies OptimizeRequest)
+    } catch (err) {
+        pending.get(id)?.reject(err instanceof Error ? err : new Error('Failed to send image to worker'))
+        pending.delete(id)
+    }
+    return response
+}
+
+const runOptimization = async (file: File, options: OptimizeOptions): Promise<OptimizedImage> => {
+    if (typeof OffscreenCanvas === 'undefined') throw new Error('Image optimization is not supported by this browser')
+
+    const response =
+        typeof Worker === 'undefined'
+            ? { id: 0, ...(await encodeImage(file, options)) }
+            : await encodeInWorker(file, options)
+    if ('error' in response) throw new Error(response.error)
+
+    return {
+        file: new File([response.blob], optimizedFileName(file.name, options.format), { type: options.format }),
+        width: response.width,
+        height: response.height,
+        originalWidth: response.originalWidth,
+        originalHeight: response.originalHeight
+    }
+}
+
+const optimizations = new WeakMap<File, Map<string, Promise<OptimizedImage>>>()
+
+// Cached per file and options, so the size comparison shown before uploading and the upload encode once
+export const optimizeImage = (file: File, options: OptimizeOptions) => {
+    const key = `${options.maxEdge}:${options.format}:${options.quality}`
+    const results = optimizations.get(file) ?? new Map<string, Promise<OptimizedImage>>()
+    optimizations.set(file, results)
+
+    let result = results.get(key)
+    if (!result) {
+        result = runOptimization(file, options)
+        // A failure shouldn't stick, the next try may have a different browser state
+        result.catch(() => results.delete(key))
+        results.set(key, result)
+    }
+    return result
+}
+
+// The file to upload and, when asked for, the original to keep next to it. The original's location and camera
+// data never go out on their own: a re-encode is uploaded even when it's larger, and when encoding fails the
+// metadata is cut out of the original instead. Throws when neither is possible.
+export const prepareImageUpload = async (file: File, settings: OptimizationSettings) => {
+    if (!settings.enabled || !(await canOptimizeFile(file))) return { file, original: null }
+
+    try {
+        const optimized = await optimizeImage(file, settings)
+        return { file: optimized.file, original: settings.keepOriginal ? file : null }
+    } catch (err) {
+        console.error('Failed to optimize image, removing its metadata instead:', err)
+    }
+
+    const stripped = await stripImageMetadata(file)
+    if (!stripped) {
+        throw new Error("This image couldn't be optimized or have its metadata removed. Turn off optimizing to upload it as is.")
+    }
+    return { file: stripped, original: null }
+}
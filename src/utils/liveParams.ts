@@ -0,0 +1,85 @@
+import type { WallpaperFit } from '../types/display'
+
+type QueryValue = string | null | (string | null)[] | undefined
+
+export interface LiveParams {
+    wallpaperId: string | null
+    tag: string | null // rotate through wallpapers with this tag
+    intervalMinutes: number | null
+    fit: WallpaperFit | null
+    muted: boolean
+    autoplayMusic: boolean
+    widgets: boolean
+    origin: string | null // host messages always have to come from the parent frame or opener; when set, also from this origin
+}
+
+// Messages a host page can post to the live wallpaper window
+export type HostCommand =
+    | { type: 'wallpaper:set', id: string }
+    | { type: 'wallpaper:next' }
+    | { type: 'wallpaper:previous' }
+    | { type: 'wallpaper:pause' }
+    | { type: 'wallpaper:resume' }
+    | { type: 'wallpaper:mute', muted: boolean }
+    | { type: 'wallpaper:get-state' }
+
+export interface LiveState {
+    type: 'wallpaper:state'
+    wallpaperId: string | null
+    paused: boolean
+    muted: boolean
+}
+
+const FITS: WallpaperFit[] = ['cover', 'contain', 'fill', 'tile', 'center']
+const TRUE_VALUES = ['', '1', 'true', 'yes', 'on']
+
+const first = (value: QueryValue) => (Array.isArray(value) ? value[0] ?? null : value ?? null)
+
+const text = (value: QueryValue) => {
+    const result = first(value)?.trim()
+    return result ? result : null
+}
+
+// `?mute` on its own counts as true, so hosts can write short URLs
+const flag = (value: QueryValue, fallback: boolean) => {
+    const result = first(value)
+    return result === null ? fallback : TRUE_VALUES.includes(result.trim().toLowerCase())
+}
+
+export const parseLiveParams = (query: Record<string, QueryValue>): LiveParams => {
+    const fit = text(query.fit) as WallpaperFit | null
+    const interval = Number(first(query.interval))
+
+    return {
+        wallpaperId: text(query.wallpaper),
+        tag: text(query.tag),
+        intervalMinutes: Number.isFinite(interval) && interval > 0 ? interval : null,
+        fit: fit && FITS.includes(fit) ? fit : null,
+        muted: flag(query.mute, true),
+        autoplayMusic: flag(query.music, false),
+        widgets: flag(query.widgets, false),
+        origin: text(query.origin)
+    }
+}
+
+// Anything that isn't a well formed command is ignored rather than thrown,
+// other scripts on the host page may post unrelated messages
+export const parseHostCommand = (data: unknown): HostCommand | null => {
+    if (!data || typeof data !== 'object') return null
+    const raw = data as Record<string, unknown>
+
+    switch (raw.type) {
+        case 'wallpaper:set':
+            return typeof raw.id === 'string' && raw.id ? { type: raw.type, id: raw.id } : null
+        case 'wallpaper:mute':
+            return { type: raw.type, muted: raw.muted !== false }
+        case 'wallpaper:next':
+        case 'wallpaper:previous':
+        case 'wallpaper:pause':
+        case 'wallpaper:resume':
+        case 'wallpaper:get-state':
+            return { type: raw.type }
+        default:
+            return null
+    }
+}
@@ -0,0 +1,65 @@
+import type { Wallpaper } from '../composables/useWallpaper'
+import type { PreviewSource } from './previewSource'
+
+export interface MediaInfo {
+    width: number | null
+    height: number | null
+    duration: number | null // seconds, videos only
+}
+
+export const formatDimensions = (info: MediaInfo) =>
+    info.width && info.height ? `${info.width} × ${info.height}` : null
+
+export const formatDuration = (seconds: number | null) => {
+    if (seconds === null || !Number.isFinite(seconds)) return null
+    const total = Math.round(seconds)
+    const minutes = Math.floor(total / 60)
+    return `${minutes}:${(total % 60).toString().padStart(2, '0')}`
+}
+
+const MB = 1024 * 1024
+
+export const formatBytes = (bytes: number) =>
+    bytes >= MB ? `${Math.round((bytes / MB) * 10) / 10} MB` : `${Math.ceil(bytes / 1024)} KB`
+
+// Size from the rendition being shown when the upload recorded one; optimized images keep a larger original
+export const knownMediaInfo = (wallpaper: Wallpaper): MediaInfo | null => {
+    const shown =
+        wallpaper.renditions?.find(rendition => rendition.file_url === wallpaper.file_url) ??
+        wallpaper.renditions?.find(rendition => rendition.is_original)
+    return shown?.width && shown.height
+        ? { width: shown.width, height: shown.height, duration: null }
+        : null
+}
+
+// The untouched upload, when it was kept next to an optimized copy
+export const keptOriginal = (wallpaper: Wallpaper) =>
+    wallpaper.renditions?.find(rendition => rendition.is_original && rendition.file_url !== wallpaper.file_url) ?? null
+
+// Load just enough of an image or video to read its size and length
+export const probeMedia = (source: PreviewSource) => {
+    return new Promise<MediaInfo | null>(resolve => {
+        if (source.kind === 'image') {
+            const image = new Image()
+            image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight, duration: null })
+            image.onerror = () => resolve(null)
+            image.src = source.src
+            return
+        }
+
+        const video = document.createElement('video')
+        video.preload = 'metadata'
+        video.muted = true
+        video.onloadedmetadata = () => {
+            resolve({
+                width: video.videoWidth,
+                height: video.videoHeight,
+                duration: Number.isFinite(video.duration) ? video.duration : null
+            })
+            video.removeAttribute('src')
+            video.load()
+        }
+        video.onerror = () => resolve(null)
+        video.src = source.src
+    })
+}
@@ -0,0 +1,211 @@
+import { COMPOSITION_MIME_TYPE } from './composition'
+import { DYNAMIC_MIME_TYPE } from './dynamicWallpaper'
+
+export interface MediaKindDefinition {
+    kind: string
+    // Exact types ("video/quicktime") or wildcards ("video/*")
+    mimeTypes: string[]
+    // Only used for rows saved before mime_type was recorded
+    extensions: string[]
+}
+
+export interface SniffResult {
+    mimeType: string
+    animated: boolean
+}
+
+interface MediaSource {
+    file_url: string
+    mime_type?: string | null
+}
+
+const SNIFF_LENGTH = 4096
+
+const definitions: MediaKindDefinition[] = [
+    {
+        kind: 'video',
+        mimeTypes: ['video/*'],
+        extensions: ['mp4', 'm4v', 'webm', 'ogv', 'ogg', 'mov']
+    },
+    {
+        kind: 'image',
+        mimeTypes: ['image/*'],
+        extensions: ['jpg', 'jpeg', 'png', 'apng', 'gif', 'webp', 'avif', 'bmp', 'svg']
+    },
+    {
+        kind: 'particles',
+        mimeTypes: ['application/json', 'application/vnd.wallpaper-particles+json'],
+        extensions: ['json']
+    },
+    {
+        kind: 'composition',
+        mimeTypes: [COMPOSITION_MIME_TYPE],
+        extensions: []
+    },
+    {
+        kind: 'dynamic',
+        mimeTypes: [DYNAMIC_MIME_TYPE],
+        extensions: []
+    }
+]
+
+// Register (or replace) a wallpaper media kind
+export const registerMediaKind = (definition: MediaKindDefinition) => {
+    const index = definitions.findIndex(d => d.kind === definition.kind)
+    if (index !== -1) {
+        definitions.splice(index, 1, definition)
+    } else {
+        definitions.push(definition)
+    }
+}
+
+export const getMediaKind = (kind: string) => {
+    return definitions.find(d => d.kind === kind) || null
+}
+
+export const getMediaKinds = (): readonly MediaKindDefinition[] => definitions
+
+const normalizeMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase()
+
+export const findKindByMimeType = (mimeType: string) => {
+    const normalized = normalizeMimeType(mimeType)
+    const exact = definitions.find(d => d.mimeTypes.includes(normalized))
+    if (exact) return exact
+
+    const family = `${normalized.split('/')[0]}/*`
+    return definitions.find(d => d.mimeTypes.includes(family)) || null
+}
+
+// File extension of a URL or file name, ignoring query strings and fragments
+export const getExtension = (url: string) => {
+    const path = url.split(/[?#]/)[0]
+    const name = path.split('/').pop() || ''
+    const dot = name.lastIndexOf('.')
+    return dot > 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+export const findKindByExtension = (url: string) => {
+    const extension = getExtension(url)
+    if (!extension) return null
+    return definitions.find(d => d.extensions.includes(extension)) || null
+}
+
+// Resolve which registered kind should render a wallpaper
+export const resolveMediaKind = (source: MediaSource) => {
+    if (source.mime_type) {
+        const byMime = findKindByMimeType(source.mime_type)
+        if (byMime) return byMime
+    }
+    return findKindByExtension(source.file_url)
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length))
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset: number = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte)
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+
+const includesAscii = (bytes: Uint8Array, text: string) => {
+    const limit = bytes.length - text.length
+    for (let i = 0; i <= limit; i++) {
+        if (ascii(bytes, i, text.length) === text) return true
+    }
+    return false
+}
+
+// An APNG carries an acTL chunk before its first IDAT chunk
+const isAnimatedPng = (bytes: Uint8Array) => {
+    let offset = 8
+    while (offset + 8 <= bytes.length) {
+        const length = readUint32(bytes, offset)
+        const type = ascii(bytes, offset + 4, 4)
+        if (type === 'acTL') return true
+        if (type === 'IDAT') return false
+        offset += 12 + length
+    }
+    return false
+}
+
+const sniffIsoMedia = (bytes: Uint8Array): SniffResult => {
+    const boxSize = Math.min(readUint32(bytes, 0), bytes.length)
+    const brands = [ascii(bytes, 8, 4)]
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+        brands.push(ascii(bytes, offset, 4))
+    }
+
+    if (brands.includes('avis')) return { mimeType: 'image/avif', animated: true }
+    if (brands.includes('avif')) return { mimeType: 'image/avif', animated: false }
+    if (brands[0] === 'qt  ') return { mimeType: 'video/quicktime', animated: true }
+    if (brands[0] === 'M4A ') return { mimeType: 'audio/mp4', animated: false }
+    return { mimeType: 'video/mp4', animated: true }
+}
+
+// Identify a file from its leading bytes rather than its name
+export const sniffMimeType = (bytes: Uint8Array): SniffResult | null => {
+    if (bytes.length < 4) return null
+
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+        return { mimeType: 'image/jpeg', animated: false }
+    }
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        return isAnimatedPng(bytes)
+            ? { mimeType: 'image/apng', animated: true }
+            : { mimeType: 'image/png', animated: false }
+    }
+    if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') {
+        return { mimeType: 'image/gif', animated: includesAscii(bytes, 'NETSCAPE2.0') }
+    }
+    if (ascii(bytes, 0, 4) === 'RIFF') {
+        const format = ascii(bytes, 8, 4)
+        if (format === 'WEBP') {
+            const animated = ascii(bytes, 12, 4) === 'VP8X' && (bytes[20] & 0x02) !== 0
+            return { mimeType: 'image/webp', animated }
+        }
+        if (format === 'WAVE') return { mimeType: 'audio/wav', animated: false }
+        return null
+    }
+    if (ascii(bytes, 4, 4) === 'ftyp') {
+        return sniffIsoMedia(bytes)
+    }
+    if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+        return includesAscii(bytes, 'webm')
+            ? { mimeType: 'video/webm', animated: true }
+            : { mimeType: 'video/x-matroska', animated: true }
+    }
+    if (ascii(bytes, 0, 4) === 'OggS') {
+        return includesAscii(bytes, 'theora')
+            ? { mimeType: 'video/ogg', animated: true }
+            : { mimeType: 'audio/ogg', animated: false }
+    }
+    if (ascii(bytes, 0, 4) === 'fLaC') {
+        return { mimeType: 'audio/flac', animated: false }
+    }
+    if (ascii(bytes, 0, 3) === 'ID3') {
+        return { mimeType: 'audio/mpeg', animated: false }
+    }
+    if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) {
+        return { mimeType: 'audio/aac', animated: false }
+    }
+    if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+        return { mimeType: 'audio/mpeg', animated: false }
+    }
+    if (ascii(bytes, 0, 2) === 'BM') {
+        return { mimeType: 'image/bmp', animated: false }
+    }
+
+    // JSON scene descriptions, allowing a UTF-8 BOM and leading whitespace
+    const start = startsWith(bytes, [0xef, 0xbb, 0xbf]) ? 3 : 0
+    if (ascii(bytes, start, 64).trimStart().startsWith('{')) {
+        return { mimeType: 'application/json', animated: false }
+    }
+
+    return null
+}
+
+export const sniffFileMimeType = async (file: Blob): Promise<SniffResult | null> => {
+    const buffer = await file.slice(0, SNIFF_LENGTH).arrayBuffer()
+    return sniffMimeType(new Uint8Array(buffer))
+}
@@ -0,0 +1,67 @@
+import type { Wallpaper } from '../composables/useWallpaper'
+
+export interface MetaTag {
+    attribute: 'property' | 'name'
+    key: string
+    content: string
+}
+
+const MARKER = 'data-page-meta'
+
+// The app with this wallpaper applied, see Home
+export const wallpaperShareUrl = (origin: string, id: string) => `${origin}/?wallpaper=${encodeURIComponent(id)}`
+
+export const wallpaperPageUrl = (origin: string, id: string) => `${origin}/wallpaper/${encodeURIComponent(id)}`
+
+export const wallpaperDescription = (wallpaper: Wallpaper) => {
+    const by = wallpaper.uploader?.username ? ` by ${wallpaper.uploader.username}` : ''
+    const tags = wallpaper.tags.length > 0 ? `, tagged ${wallpaper.tags.map(tag => `#${tag}`).join(' ')}` : ''
+    return `Live wallpaper${by}${tags}.`
+}
+
+// Open Graph and Twitter card tags; crawlers that run scripts pick these up
+export const wallpaperMeta = (wallpaper: Wallpaper, pageUrl: string, imageUrl: string | null): MetaTag[] => {
+    const description = wallpaperDescription(wallpaper)
+    const tags: MetaTag[] = [
+        { attribute: 'property', key: 'og:type', content: 'website' },
+        { attribute: 'property', key: 'og:title', content: wallpaper.title },
+        { attribute: 'property', key: 'og:description', content: description },
+        { attribute: 'property', key: 'og:url', content: pageUrl },
+        { attribute: 'name', key: 'description', content: description },
+        { attribute: 'name', key: 'twitter:card', content: imageUrl ? 'summary_large_image' : 'summary' },
+        { attribute: 'name', key: 'twitter:title', content: wallpaper.title }
+    ]
+    if (imageUrl) {
+        tags.push({ attribute: 'property', key: 'og:image', content: imageUrl })
+        tags.push({ attribute: 'name', key: 'twitter:image', content: imageUrl })
+    }
+    return tags
+}
+
+// Set the document title and meta tags; the returned function puts the previous ones back
+export const applyPageMeta = (title: string, tags: MetaTag[]) => {
+    const previousTitle = document.title
+    const replaced: { element: HTMLMetaElement, content: string }[] = []
+    const added: HTMLMetaElement[] = []
+
+    document.title = title
+    for (const tag of tags) {
+        let element = document.head.querySelector<HTMLMetaElement>(`meta[${tag.attribute}="${tag.key}"]`)
+        if (element) {
+            replaced.push({ element, content: element.content })
+        } else {
+            element = document.createElement('meta')
+            element.setAttribute(tag.attribute, tag.key)
+            element.setAttribute(MARKER, '')
+            document.head.appendChild(element)
+            added.push(element)
+        }
+        element.content = tag.content
+    }
+
+    return () => {
+        document.title = previousTitle
+        replaced.forEach(({ element, content }) => { element.content = content })
+        added.forEach(element => element.remove())
+    }
+}
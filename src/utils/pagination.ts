@@ -0,0 +1,33 @@
+// Keyset pagination over (sort column, id): stable while rows are inserted, unlike offsets
+export interface PageCursor {
+    value: string | number
+    id: string
+}
+
+export const cursorOf = <T extends { id: string }>(row: T, column: keyof T & string): PageCursor => ({
+    value: row[column] as string | number,
+    id: row.id
+})
+
+// PostgREST `or` filter for rows after the cursor; id breaks ties between equal sort values
+export const cursorFilter = (cursor: PageCursor, column: string, ascending: boolean) => {
+    const op = ascending ? 'gt' : 'lt'
+    const at = typeof cursor.value === 'number' ? String(cursor.value) : `"${cursor.value}"`
+    return `${column}.${op}.${at},and(${column}.eq.${at},id.${op}.${cursor.id})`
+}
+
+// Append a page, skipping rows already loaded (e.g. after an upload shifted the list)
+export const mergePage = <T extends { id: string }>(existing: T[], page: T[]) => {
+    const seen = new Set(existing.map(item => item.id))
+    return [...existing, ...page.filter(item => !seen.has(item.id))]
+}
+
+// LIKE wildcards in user input should match literally
+export const escapeLike = (text: string) => text.replace(/[\\%_]/g, match => `\\${match}`)
+
+// Offset pagination for ranked results, where there is no stable key to resume from.
+// Pass limit + 1 rows: the extra one tells whether another page exists.
+export const offsetPage = <T>(rows: T[], offset: number, limit: number) => ({
+    items: rows.slice(0, limit),
+    nextOffset: rows.length > limit ? offset + limit : null
+})
@@ -0,0 +1,203 @@
+import type { IPalette, IPanelTheme } from '../types/palette'
+
+type Rgb = [number, number, number]
+
+const WHITE: Rgb = [255, 255, 255]
+const BLACK: Rgb = [0, 0, 0]
+const DARK_TEXT = '#111827'
+const MIN_CONTRAST = 4.5 // WCAG AA for body text
+const ACCENT_DISTANCE = 60 // minimum RGB distance from the dominant color
+const SAMPLE_SIZE = 64
+
+// Panel tints to try in order, the first one that keeps text readable wins.
+// White text starts from the original frosted look before darkening.
+const LIGHT_TEXT_TINTS: [Rgb, number][] = [[WHITE, 0.1], [BLACK, 0.2], [BLACK, 0.35], [BLACK, 0.5], [BLACK, 0.65]]
+const DARK_TEXT_TINTS: [Rgb, number][] = [[WHITE, 0.35], [WHITE, 0.5], [WHITE, 0.65], [WHITE, 0.8]]
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i
+
+export const toHex = ([r, g, b]: Rgb) =>
+    `#${[r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`
+
+export const parseHex = (hex: string): Rgb => [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16)
+]
+
+const channel = (value: number) => {
+    const c = value / 255
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+}
+
+// WCAG relative luminance, 0 for black to 1 for white
+export const relativeLuminance = (hex: string) => {
+    const [r, g, b] = parseHex(hex)
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b)
+}
+
+export const contrastRatio = (a: string, b: string) => {
+    const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x)
+    return (light + 0.05) / (dark + 0.05)
+}
+
+export const readableTextColor = (background: string) =>
+    contrastRatio('#ffffff', background) >= contrastRatio(DARK_TEXT, background) ? '#ffffff' : DARK_TEXT
+
+const saturation = ([r, g, b]: Rgb) => {
+    const max = Math.max(r, g, b)
+    const min = Math.min(r, g, b)
+    return max === 0 ? 0 : (max - min) / max
+}
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+
+// Dominant, accent and average colors from RGBA pixel data, e.g. ImageData.data
+export const extractPalette = (pixels: ArrayLike<number>): IPalette | null => {
+    // 4 bits per channel gives 4096 buckets, coarse enough to group similar shades
+    const buckets = new Map<number, { sum: Rgb, count: number }>()
+    const total: Rgb = [0, 0, 0]
+    let count = 0
+
+    for (let i = 0; i + 3 < pixels.length; i += 4) {
+        if (pixels[i + 3] < 128) continue
+        const r = pixels[i]
+        const g = pixels[i + 1]
+        const b = pixels[i + 2]
+        const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4)
+
+        const bucket = buckets.get(key) || { sum: [0, 0, 0] as Rgb, count: 0 }
+        bucket.sum[0] += r
+        bucket.sum[1] += g
+        bucket.sum[2] += b
+        bucket.count++
+        buckets.set(key, bucket)
+
+        total[0] += r
+        total[1] += g
+        total[2] += b
+        count++
+    }
+    if (count === 0) return null
+
+    const colors = [...buckets.values()].map(({ sum, count }) => ({
+        rgb: sum.map(value => value / count) as Rgb,
+        count
+    }))
+
+    const dominant = colors.reduce((best, color) => (color.count > best.count ? color : best))
+
+    let accent = dominant
+    let accentScore = 0
+    for (const color of colors) {
+        if (distance(color.rgb, dominant.rgb) < ACCENT_DISTANCE) continue
+        const score = color.count * (0.2 + saturation(color.rgb))
+        if (score > accentScore) {
+            accent = color
+            accentScore = score
+        }
+    }
+
+    return {
+        dominant: toHex(dominant.rgb),
+        accent: toHex(accent.rgb),
+        average: toHex(total.map(value => value / count) as Rgb)
+    }
+}
+
+const blend = (top: Rgb, alpha: number, bottom: Rgb): Rgb =>
+    [0, 1, 2].map(i => top[i] * alpha + bottom[i] * (1 - alpha)) as Rgb
+
+// Glass panel colors that keep text readable over the wallpaper's average color
+export const panelTheme = (palette: IPalette): IPanelTheme => {
+    const backdrop = parseHex(palette.average)
+    const text = readableTextColor(palette.average)
+    const tints = text === '#ffffff' ? LIGHT_TEXT_TINTS : DARK_TEXT_TINTS
+
+    const [tint, alpha] = tints.find(([tint, alpha]) =>
+        contrastRatio(text, toHex(blend(tint, alpha, backdrop))) >= MIN_CONTRAST
+    ) || tints[tints.length - 1]
+
+    const [r, g, b] = parseHex(text)
+    return {
+        background: `rgba(${tint.join(', ')}, ${alpha})`,
+        border: `rgba(${r}, ${g}, ${b}, 0.2)`,
+        text
+    }
+}
+
+// CSS custom properties for the document root, see the glass-panel styles
+export const paletteVariables = (palette: IPalette): Record<string, string> => {
+    const theme = panelTheme(palette)
+    return {
+        '--wallpaper-dominant': palette.dominant,
+        '--wallpaper-accent': palette.accent,
+        '--wallpaper-average': palette.average,
+        '--panel-bg': theme.background,
+        '--panel-border': theme.border,
+        '--panel-text': theme.text
+    }
+}
+
+// Validate a palette stored on a wallpaper row or in the local cache
+export const parsePalette = (input: unknown): IPalette | null => {
+    if (!input || typeof input !== 'object') return null
+    const raw = input as Record<string, unknown>
+    const valid = (value: unknown): value is string => typeof value === 'string' && HEX_PATTERN.test(value)
+
+    return valid(raw.dominant) && valid(raw.accent) && valid(raw.average)
+        ? { dominant: raw.dominant, accent: raw.accent, average: raw.average }
+        : null
+}
+
+const loadImage = (src: string) =>
+    new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image()
+        image.crossOrigin = 'anonymous'
+        image.onload = () => resolve(image)
+        image.onerror = () => reject(new Error('Failed to load image'))
+        image.src = src
+    })
+
+// A frame a little way in, the first frame of many videos is a fade from black
+const loadVideoFrame = (src: string) =>
+    new Promise<HTMLVideoElement>((resolve, reject) => {
+        const video = document.createElement('video')
+        video.crossOrigin = 'anonymous'
+        video.muted = true
+        video.preload = 'auto'
+        video.onloadeddata = () => {
+            video.currentTime = Math.min(1, (video.duration || 0) / 2)
+        }
+        video.onseeked = () => resolve(video)
+        video.onerror = () => reject(new Error('Failed to load video'))
+        video.src = src
+    })
+
+// Sample an image or video into a palette, null when it can't be read (e.g. no CORS)
+export const samplePalette = async (src: string, kind: 'image' | 'video'): Promise<IPalette | null> => {
+    try {
+        const source = kind === 'video' ? await loadVideoFrame(src) : await loadImage(src)
+        const canvas = document.createElement('canvas')
+        canvas.width = SAMPLE_SIZE
+        canvas.height = SAMPLE_SIZE
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })
+        if (!ctx) return null
+
+        ctx.drawImage(source, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+        if (source instanceof HTMLVideoElement) source.removeAttribute('src')
+        return extractPalette(ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data)
+    } catch (err) {
+        console.error('Failed to sample wallpaper palette:', err)
+        return null
+    }
+}
+
+export const sampleFilePalette = async (file: File, kind: 'image' | 'video') => {
+    const url = URL.createObjectURL(file)
+    try {
+        return await samplePalette(url, kind)
+    } finally {
+        URL.revokeObjectURL(url)
+    }
+}
@@ -0,0 +1,251 @@
+import type { IParticle, IParticleEmitter, IParticleScene, ParticleStyle, Range, SpawnShape } from '../types/particles'
+
+// Simulation always advances in fixed steps so a seeded run is reproducible
+export const FIXED_STEP = 1 / 60
+const MAX_FRAME_TIME = 0.25
+const SPAWN_SHAPES: SpawnShape[] = ['point', 'line', 'rect', 'circle']
+const PARTICLE_STYLES: ParticleStyle[] = ['dot', 'streak']
+const STREAK_LENGTH = 0.04 // seconds of travel drawn behind a streak
+
+export type ParticleRenderContext = Pick<
+    CanvasRenderingContext2D,
+    | 'clearRect' | 'fillRect' | 'beginPath' | 'arc' | 'fill' | 'globalAlpha' | 'fillStyle'
+    | 'moveTo' | 'lineTo' | 'stroke' | 'strokeStyle' | 'lineWidth'
+>
+
+export interface ParticleEngineOptions {
+    width: number
+    height: number
+    seed?: number
+}
+
+// Small seeded PRNG (mulberry32) used instead of Math.random
+export const createRandom = (seed: number) => {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+const toNumber = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const toRange = (value: unknown, fallback: Range): Range => {
+    if (typeof value === 'number' && Number.isFinite(value)) return [value, value]
+    if (Array.isArray(value) && value.length === 2) {
+        const min = toNumber(value[0], fallback[0])
+        const max = toNumber(value[1], fallback[1])
+        return min <= max ? [min, max] : [max, min]
+    }
+    return fallback
+}
+
+const parseEmitter = (input: unknown, index: number): IParticleEmitter => {
+    if (!input || typeof input !== 'object') {
+        throw new Error(`Emitter ${index} must be an object`)
+    }
+    const raw = input as Record<string, unknown>
+
+    const shape = (raw.shape ?? 'point') as SpawnShape
+    if (!SPAWN_SHAPES.includes(shape)) {
+        throw new Error(`Emitter ${index} has unknown spawn shape "${String(raw.shape)}"`)
+    }
+
+    const colors = Array.isArray(raw.colors)
+        ? raw.colors.filter((color): color is string => typeof color === 'string')
+        : []
+
+    return {
+        shape,
+        x: toNumber(raw.x, 0.5),
+        y: toNumber(raw.y, 0.5),
+        width: toNumber(raw.width, 0),
+        height: toNumber(raw.height, 0),
+        radius: toNumber(raw.radius, 0),
+        rate: Math.max(0, toNumber(raw.rate, 10)),
+        lifetime: toRange(raw.lifetime, [2, 4]),
+        speed: toRange(raw.speed, [20, 60]),
+        angle: toRange(raw.angle, [0, 360]),
+        size: toRange(raw.size, [1, 3]),
+        opacity: toRange(raw.opacity, [0.6, 1]),
+        colors: colors.length > 0 ? colors : ['#ffffff'],
+        fadeOut: raw.fadeOut !== false
+    }
+}
+
+// Validate a scene description loaded from JSON and fill in defaults
+export const parseParticleScene = (input: unknown): IParticleScene => {
+    if (!input || typeof input !== 'object') {
+        throw new Error('Particle scene must be an object')
+    }
+    const raw = input as Record<string, unknown>
+
+    if (!Array.isArray(raw.emitters) || raw.emitters.length === 0) {
+        throw new Error('Particle scene needs at least one emitter')
+    }
+
+    return {
+        version: toNumber(raw.version, 1),
+        background: typeof raw.background === 'string' ? raw.background : null,
+        particleCount: Math.max(1, Math.floor(toNumber(raw.particleCount, 300))),
+        gravity: toNumber(raw.gravity, 0),
+        wind: toNumber(raw.wind, 0),
+        particleStyle: PARTICLE_STYLES.includes(raw.particleStyle as ParticleStyle)
+            ? (raw.particleStyle as ParticleStyle)
+            : 'dot',
+        emitters: raw.emitters.map(parseEmitter)
+    }
+}
+
+export const createParticleEngine = (scene: IParticleScene, options: ParticleEngineOptions) => {
+    const random = createRandom(options.seed ?? Math.floor(Math.random() * 2 ** 32))
+    const particles: IParticle[] = []
+    const spawnDebt = scene.emitters.map(() => 0)
+
+    let width = options.width
+    let height = options.height
+    let accumulator = 0
+    let elapsed = 0
+
+    const between = ([min, max]: Range) => min + (max - min) * random()
+
+    const spawnPosition = (emitter: IParticleEmitter) => {
+        const originX = emitter.x * width
+        const originY = emitter.y * height
+
+        switch (emitter.shape) {
+            case 'line': {
+                const t = random()
+                return { x: originX + emitter.width * width * t, y: originY + emitter.height * height * t }
+            }
+            case 'rect':
+                return {
+                    x: originX + emitter.width * width * random(),
+                    y: originY + emitter.height * height * random()
+                }
+            case 'circle': {
+                const radius = emitter.radius * Math.min(width, height) * Math.sqrt(random())
+                const theta = random() * Math.PI * 2
+                return { x: originX + Math.cos(theta) * radius, y: originY + Math.sin(theta) * radius }
+            }
+            default:
+                return { x: originX, y: originY }
+        }
+    }
+
+    const spawn = (emitter: IParticleEmitter) => {
+        const { x, y } = spawnPosition(emitter)
+        const speed = between(emitter.speed)
+        const angle = (between(emitter.angle) * Math.PI) / 180
+
+        particles.push({
+            x,
+            y,
+            vx: Math.cos(angle) * speed,
+            vy: Math.sin(angle) * speed,
+            age: 0,
+            life: between(emitter.lifetime),
+            size: between(emitter.size),
+            opacity: between(emitter.opacity),
+            color: emitter.colors[Math.floor(random() * emitter.colors.length)],
+            fadeOut: emitter.fadeOut
+        })
+    }
+
+    // Advance the simulation by exactly one fixed step
+    const step = (dt: number = FIXED_STEP) => {
+        scene.emitters.forEach((emitter, index) => {
+            spawnDebt[index] += emitter.rate * dt
+            while (spawnDebt[index] >= 1) {
+                spawnDebt[index] -= 1
+                if (particles.length < scene.particleCount) {
+                    spawn(emitter)
+                }
+            }
+        })
+
+        let alive = 0
+        for (const particle of particles) {
+            particle.vx += scene.wind * dt
+            particle.vy += scene.gravity * dt
+            particle.x += particle.vx * dt
+            particle.y += particle.vy * dt
+            particle.age += dt
+
+            if (particle.age < particle.life) {
+                particles[alive++] = particle
+            }
+        }
+        particles.length = alive
+        elapsed += dt
+    }
+
+    // Spawn a number of particles at once, e.g. on a beat
+    const burst = (count: number, emitterIndex: number = 0) => {
+        const emitter = scene.emitters[emitterIndex]
+        if (!emitter) return
+        for (let i = 0; i < count && particles.length < scene.particleCount; i++) {
+            spawn(emitter)
+        }
+    }
+
+    // Run as many fixed steps as fit in the real frame time
+    const advance = (frameTime: number) => {
+        accumulator += Math.min(Math.max(frameTime, 0), MAX_FRAME_TIME)
+        while (accumulator >= FIXED_STEP) {
+            step()
+            accumulator -= FIXED_STEP
+        }
+    }
+
+    const render = (ctx: ParticleRenderContext) => {
+        ctx.globalAlpha = 1
+        if (scene.background) {
+            ctx.fillStyle = scene.background
+            ctx.fillRect(0, 0, width, height)
+        } else {
+            ctx.clearRect(0, 0, width, height)
+        }
+
+        for (const particle of particles) {
+            const fade = particle.fadeOut ? 1 - particle.age / particle.life : 1
+            ctx.globalAlpha = Math.max(0, particle.opacity * fade)
+            ctx.beginPath()
+            if (scene.particleStyle === 'streak') {
+                ctx.strokeStyle = particle.color
+                ctx.lineWidth = particle.size
+                ctx.moveTo(particle.x, particle.y)
+                ctx.lineTo(particle.x - particle.vx * STREAK_LENGTH, particle.y - particle.vy * STREAK_LENGTH)
+                ctx.stroke()
+            } else {
+                ctx.fillStyle = particle.color
+                ctx.arc(particle.x, particle.y, particle.size, 0, Math.PI * 2)
+                ctx.fill()
+            }
+        }
+        ctx.globalAlpha = 1
+    }
+
+    const resize = (newWidth: number, newHeight: number) => {
+        width = newWidth
+        height = newHeight
+    }
+
+    return {
+        particles: particles as readonly IParticle[],
+        get elapsed() {
+            return elapsed
+        },
+        step,
+        burst,
+        advance,
+        render,
+        resize
+    }
+}
+
+export type ParticleEngine = ReturnType<typeof createParticleEngine>
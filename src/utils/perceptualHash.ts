@@ -0,0 +1,170 @@
+// Hashes stored on wallpapers for duplicate detection, see find_similar_wallpapers in supabase-schema.sql
+export interface MediaFingerprint {
+    content_hash?: string | null // SHA-256 of the file, equal only for byte-identical uploads
+    perceptual_hashes?: string[] | null // one difference hash per sampled frame
+}
+
+const HASH_COLUMNS = 9
+const HASH_ROWS = 8
+// Points through a video or animation to sample, skipping fades at either end
+const FRAME_POSITIONS = [0.1, 0.5, 0.9]
+const POPCOUNT = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4]
+
+const luma = (pixels: ArrayLike<number>, i: number) =>
+    0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2]
+
+// 64-bit difference hash of a 9×8 RGBA sample as 16 hex digits. Each bit says whether brightness
+// rises between horizontal neighbours, which survives rescaling, recompression and small color shifts.
+export const differenceHash = (pixels: ArrayLike<number>) => {
+    let hex = ''
+    let nibble = 0
+    let bits = 0
+    for (let y = 0; y < HASH_ROWS; y++) {
+        for (let x = 0; x < HASH_COLUMNS - 1; x++) {
+            const i = (y * HASH_COLUMNS + x) * 4
+            nibble = (nibble << 1) | (luma(pixels, i) < luma(pixels, i + 4) ? 1 : 0)
+            if (++bits % 4 === 0) {
+                hex += nibble.toString(16)
+                nibble = 0
+            }
+        }
+    }
+    return hex
+}
+
+// Number of differing bits between two hashes of the same length
+export const hammingDistance = (a: string, b: string) => {
+    let distance = 0
+    for (let i = 0; i < a.length; i++) {
+        distance += POPCOUNT[parseInt(a[i], 16) ^ parseInt(b[i], 16)]
+    }
+    return distance
+}
+
+// How far the worst frame of either set is from its closest frame in the other. Matches
+// frame_set_distance in supabase-schema.sql; null when either side has no frames.
+export const frameSetDistance = (a: readonly string[], b: readonly string[]) => {
+    if (a.length === 0 || b.length === 0) return null
+    const farthest = (from: readonly string[], to: readonly string[]) =>
+        Math.max(...from.map(hash => Math.min(...to.map(other => hammingDistance(hash, other)))))
+    return Math.max(farthest(a, b), farthest(b, a))
+}
+
+const sha256 = async (file: File) => {
+    if (!crypto.subtle) return null
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const createSampler = () => {
+    const canvas = document.createElement('canvas')
+    canvas.width = HASH_COLUMNS
+    canvas.height = HASH_ROWS
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) throw new Error('Canvas is not available')
+    ctx.imageSmoothingQuality = 'high'
+
+    return (source: CanvasImageSource) => {
+        ctx.drawImage(source, 0, 0, HASH_COLUMNS, HASH_ROWS)
+        return differenceHash(ctx.getImageData(0, 0, HASH_COLUMNS, HASH_ROWS).data)
+    }
+}
+
+const frameIndexes = (frameCount: number) =>
+    Array.from(new Set(FRAME_POSITIONS.map(position => Math.min(frameCount - 1, Math.floor(position * frameCount)))))
+
+// Animated images decode frame by frame where ImageDecoder exists, otherwise only the first frame is drawn
+const hashImage = async (file: File, mimeType: string, sample: (source: CanvasImageSource) => string) => {
+    if (typeof ImageDecoder !== 'undefined' && (await ImageDecoder.isTypeSupported(mimeType))) {
+        const decoder = new ImageDecoder({ data: await file.arrayBuffer(), type: mimeType })
+        try {
+            await decoder.tracks.ready
+            const hashes: string[] = []
+            for (const frameIndex of frameIndexes(decoder.tracks.selectedTrack?.frameCount || 1)) {
+                const { image } = await decoder.decode({ frameIndex })
+                hashes.push(sample(image))
+                image.close()
+            }
+            return hashes
+        } finally {
+            decoder.close()
+        }
+    }
+
+    const url = URL.createObjectURL(file)
+    try {
+        const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+            const element = new Image()
+            element.onload = () => resolve(element)
+            element.onerror = () => reject(new Error('Failed to load image'))
+            element.src = url
+        })
+        return [sample(image)]
+    } finally {
+        URL.revokeObjectURL(url)
+    }
+}
+
+const seekTo = (video: HTMLVideoElement, time: number) =>
+    new Promise<void>((resolve, reject) => {
+        video.onseeked = () => resolve()
+        video.onerror = () => reject(new Error('Failed to seek video'))
+        video.currentTime = time
+    })
+
+const hashVideo = async (file: File, sample: (source: CanvasImageSource) => string) => {
+    const url = URL.createObjectURL(file)
+    const video = document.createElement('video')
+    try {
+        await new Promise<void>((resolve, reject) => {
+            video.muted = true
+            video.preload = 'auto'
+            video.onloadeddata = () => resolve()
+            video.onerror = () => reject(new Error('Failed to load video'))
+            video.src = url
+        })
+
+        const duration = Number.isFinite(video.duration) ? video.duration : 0
+        const hashes: string[] = []
+        for (const position of FRAME_POSITIONS) {
+            await seekTo(video, duration * position)
+            hashes.push(sample(video))
+        }
+        return hashes
+    } finally {
+        video.removeAttribute('src')
+        video.load()
+        URL.revokeObjectURL(url)
+    }
+}
+
+const computeFingerprint = async (file: File, kind: string, mimeType: string): Promise<MediaFingerprint> => {
+    let perceptualHashes: string[] | null = null
+    try {
+        if (kind === 'image') perceptualHashes = await hashImage(file, mimeType, createSampler())
+        if (kind === 'video') perceptualHashes = await hashVideo(file, createSampler())
+    } catch (err) {
+        console.error('Failed to hash wallpaper frames:', err)
+    }
+
+    let contentHash: string | null = null
+    try {
+        contentHash = await sha256(file)
+    } catch (err) {
+        console.error('Failed to hash wallpaper file:', err)
+    }
+
+    return { content_hash: contentHash, perceptual_hashes: perceptualHashes }
+}
+
+const fingerprints = new WeakMap<File, Promise<MediaFingerprint>>()
+
+// Cached per file, so the duplicate check before an upload and the upload itself share one pass
+export const fingerprintFile = (file: File, kind: string, mimeType: string) => {
+    let fingerprint = fingerprints.get(file)
+    if (!fingerprint) {
+        fingerprint = computeFingerprint(file, kind, mimeType)
+        fingerprints.set(file, fingerprint)
+    }
+    return fingerprint
+}
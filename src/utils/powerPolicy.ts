@@ -0,0 +1,106 @@
+export type PowerPreset = 'performance' | 'balanced' | 'battery-saver'
+export type PlaybackState = 'running' | 'throttled' | 'paused'
+export type PowerReason = 'requested' | 'hidden' | 'reduced-motion' | 'low-battery' | 'idle' | 'blurred'
+
+export interface BatteryStatus {
+    level: number // 0 → 1
+    charging: boolean
+}
+
+export interface PowerConditions {
+    requested: boolean // paused on request, e.g. by the page hosting the live wallpaper
+    hidden: boolean
+    focused: boolean
+    reducedMotion: boolean
+    battery: BatteryStatus | null // null when the Battery API is unavailable
+    idleMs: number
+}
+
+export interface PowerPresetRules {
+    hidden: PlaybackState
+    blurred: PlaybackState
+    reducedMotion: PlaybackState
+    lowBattery: PlaybackState
+    lowBatteryLevel: number
+    idle: PlaybackState
+    idleAfterMs: number
+    throttledFps: number
+}
+
+export interface PlaybackDecision {
+    state: PlaybackState
+    reason: PowerReason | null
+    fps: number | null // frame cap for canvas renderers, null when unlimited
+}
+
+export const POWER_PRESETS: Record<PowerPreset, PowerPresetRules> = {
+    performance: {
+        hidden: 'paused',
+        blurred: 'running',
+        reducedMotion: 'throttled',
+        lowBattery: 'running',
+        lowBatteryLevel: 0,
+        idle: 'running',
+        idleAfterMs: Infinity,
+        throttledFps: 30
+    },
+    balanced: {
+        hidden: 'paused',
+        blurred: 'running',
+        reducedMotion: 'paused',
+        lowBattery: 'throttled',
+        lowBatteryLevel: 0.2,
+        idle: 'throttled',
+        idleAfterMs: 5 * 60_000,
+        throttledFps: 24
+    },
+    'battery-saver': {
+        hidden: 'paused',
+        blurred: 'throttled',
+        reducedMotion: 'paused',
+        lowBattery: 'paused',
+        lowBatteryLevel: 0.5,
+        idle: 'paused',
+        idleAfterMs: 60_000,
+        throttledFps: 15
+    }
+}
+
+export const RUNNING: PlaybackDecision = { state: 'running', reason: null, fps: null }
+
+const SEVERITY: Record<PlaybackState, number> = { running: 0, throttled: 1, paused: 2 }
+
+// The most restrictive rule wins; ties keep the first reason listed
+export const evaluatePowerPolicy = (conditions: PowerConditions, preset: PowerPreset): PlaybackDecision => {
+    const rules = POWER_PRESETS[preset]
+    const battery = conditions.battery
+    const candidates: [PowerReason, PlaybackState][] = []
+
+    if (conditions.requested) candidates.push(['requested', 'paused'])
+    if (conditions.hidden) candidates.push(['hidden', rules.hidden])
+    if (conditions.reducedMotion) candidates.push(['reduced-motion', rules.reducedMotion])
+    if (battery && !battery.charging && battery.level <= rules.lowBatteryLevel) {
+        candidates.push(['low-battery', rules.lowBattery])
+    }
+    if (conditions.idleMs >= rules.idleAfterMs) candidates.push(['idle', rules.idle])
+    if (!conditions.focused) candidates.push(['blurred', rules.blurred])
+
+    let decision = RUNNING
+    for (const [reason, state] of candidates) {
+        if (SEVERITY[state] > SEVERITY[decision.state]) {
+            decision = {
+                state,
+                reason,
+                fps: state === 'throttled' ? rules.throttledFps : state === 'paused' ? 0 : null
+            }
+        }
+    }
+    return decision
+}
+
+// Whether enough time has passed to draw another frame under a frame cap
+export const shouldRenderFrame = (decision: PlaybackDecision, lastRender: number, now: number) => {
+    if (decision.state === 'paused') return false
+    if (decision.fps === null) return true
+    return now - lastRender >= 1000 / decision.fps
+}
@@ -0,0 +1,36 @@
+import type { Wallpaper } from '../composables/useWallpaper'
+import { findMediaLayer, parseComposition } from './composition'
+import { parseDynamicSet } from './dynamicWallpaper'
+import { resolveMediaKind } from './mediaTypes'
+
+export interface PreviewSource {
+    src: string
+    kind: 'image' | 'video'
+}
+
+interface MediaSource {
+    file_url: string
+    mime_type?: string | null
+}
+
+// The full image or video a wallpaper shows, null for kinds without one (particles)
+export const mediaSource = (wallpaper: Wallpaper): PreviewSource | null => {
+    let source: MediaSource = wallpaper
+    try {
+        if (wallpaper.composition) {
+            source = findMediaLayer(parseComposition(wallpaper.composition)) || wallpaper
+        } else if (wallpaper.dynamic) {
+            source = parseDynamicSet(wallpaper.dynamic).frames[0]
+        }
+    } catch (err) {
+        console.error('Failed to find wallpaper preview media:', err)
+        return null
+    }
+
+    const kind = resolveMediaKind(source)?.kind
+    return kind === 'image' || kind === 'video' ? { src: source.file_url, kind } : null
+}
+
+// What stands in for a wallpaper in lists and color sampling: its thumbnail when the upload made one
+export const previewSource = (wallpaper: Wallpaper): PreviewSource | null =>
+    wallpaper.thumbnail_url ? { src: wallpaper.thumbnail_url, kind: 'image' } : mediaSource(wallpaper)
@@ -0,0 +1,17 @@
+import type { Wallpaper } from '../composables/useWallpaper'
+
+// Most shared tags first, then the more popular one
+export const rankRelated = (target: Wallpaper, candidates: Wallpaper[], limit: number) => {
+    const tags = new Set(target.tags)
+    return candidates
+        .filter(candidate => candidate.id !== target.id)
+        .map(candidate => ({
+            candidate,
+            shared: candidate.tags.filter(tag => tags.has(tag)).length
+        }))
+        .sort((a, b) =>
+            b.shared - a.shared || (b.candidate.popularity ?? 0) - (a.candidate.popularity ?? 0)
+        )
+        .slice(0, limit)
+        .map(({ candidate }) => candidate)
+}
@@ -0,0 +1,194 @@
+import { debounce } from './general'
+
+export interface RenditionCandidate {
+    file_url: string
+    mime_type: string | null
+    codecs?: string | null
+    width: number | null
+    height: number | null
+    bitrate?: number | null // kbit/s
+}
+
+export interface ConnectionHints {
+    effectiveType?: string
+    saveData?: boolean
+    downlink?: number // Mbit/s
+}
+
+export interface PlaybackEnvironment {
+    viewportWidth: number
+    viewportHeight: number
+    devicePixelRatio: number
+    connection: ConnectionHints | null
+    canPlay: (type: string) => boolean
+}
+
+export interface StallMonitorOptions {
+    stallTimeout?: number // ms a single stall may last
+    maxStalls?: number // short stalls tolerated within the window
+    window?: number // ms
+}
+
+// Extra pixels beyond 2x are not visible on a wallpaper but cost a lot of bandwidth
+const MAX_DPR = 2
+const SLOW_CONNECTION_HEIGHT = 720
+const CODEC_RANK: [string, number][] = [['av01', 3], ['vp09', 2], ['vp9', 2], ['hev1', 2], ['hvc1', 2], ['avc1', 1]]
+
+export const renditionType = (rendition: RenditionCandidate) => {
+    const mimeType = rendition.mime_type || ''
+    return rendition.codecs ? `${mimeType}; codecs="${rendition.codecs}"` : mimeType
+}
+
+// A rendition of unknown size is treated as the largest, usually it's an original recorded before sizes were
+const pixels = (rendition: RenditionCandidate) =>
+    rendition.width && rendition.height ? rendition.width * rendition.height : Infinity
+
+const codecRank = (rendition: RenditionCandidate) => {
+    const codecs = rendition.codecs?.toLowerCase() || ''
+    return CODEC_RANK.find(([prefix]) => codecs.startsWith(prefix))?.[1] ?? 0
+}
+
+// Smallest first, more efficient codecs first at the same size
+const compareRenditions = (a: RenditionCandidate, b: RenditionCandidate) =>
+    (pixels(a) === pixels(b) ? 0 : pixels(a) - pixels(b)) || codecRank(b) - codecRank(a)
+
+// Upscaling needed to cover the viewport, below 1 means the rendition is large enough
+const coverScale = (rendition: RenditionCandidate, env: PlaybackEnvironment) => {
+    if (!rendition.width || !rendition.height) return 1
+    const dpr = Math.min(env.devicePixelRatio || 1, MAX_DPR)
+    return Math.max(
+        (env.viewportWidth * dpr) / rendition.width,
+        (env.viewportHeight * dpr) / rendition.height
+    )
+}
+
+const fitsConnection = (rendition: RenditionCandidate, connection: ConnectionHints | null) => {
+    if (!connection) return true
+    if (connection.saveData || connection.effectiveType === 'slow-2g' || connection.effectiveType === '2g') {
+        return false
+    }
+    if (connection.effectiveType === '3g' && (rendition.height ?? 0) > SLOW_CONNECTION_HEIGHT) {
+        return false
+    }
+    if (connection.downlink && rendition.bitrate) {
+        return rendition.bitrate <= connection.downlink * 1000 * 0.8
+    }
+    return true
+}
+
+const playableRenditions = <T extends RenditionCandidate>(renditions: T[], env: PlaybackEnvironment) =>
+    renditions
+        .filter(rendition => !rendition.mime_type || env.canPlay(renditionType(rendition)))
+        .sort(compareRenditions)
+
+// Smallest rendition that covers the viewport within the connection budget
+export const selectRendition = <T extends RenditionCandidate>(renditions: T[], env: PlaybackEnvironment): T | null => {
+    const playable = playableRenditions(renditions, env)
+    if (playable.length === 0) return null
+
+    const affordable = playable.filter(rendition => fitsConnection(rendition, env.connection))
+    if (affordable.length === 0) return playable[0]
+
+    const sharp = affordable.find(rendition => coverScale(rendition, env) <= 1.1)
+    return sharp ?? affordable[affordable.length - 1]
+}
+
+// Next smaller playable rendition, or null when already at the bottom
+export const downgradeRendition = <T extends RenditionCandidate>(
+    renditions: T[],
+    current: T,
+    env: PlaybackEnvironment
+): T | null => {
+    const smaller = playableRenditions(renditions, env).filter(rendition => pixels(rendition) < pixels(current))
+    return smaller.length > 0 ? smaller[smaller.length - 1] : null
+}
+
+// Decides when buffering has gone on long enough to switch to a smaller rendition
+export const createStallMonitor = (options: StallMonitorOptions = {}) => {
+    const stallTimeout = options.stallTimeout ?? 3000
+    const maxStalls = options.maxStalls ?? 3
+    const windowMs = options.window ?? 30_000
+
+    let stalls: number[] = []
+    let stalledAt: number | null = null
+
+    const waiting = (now: number) => {
+        stalledAt = now
+        stalls = [...stalls.filter(time => now - time < windowMs), now]
+        return stalls.length >= maxStalls
+    }
+
+    const playing = () => {
+        stalledAt = null
+    }
+
+    const isStuck = (now: number) => stalledAt !== null && now - stalledAt >= stallTimeout
+
+    const reset = () => {
+        stalls = []
+        stalledAt = null
+    }
+
+    return { waiting, playing, isStuck, reset }
+}
+
+export type StallMonitor = ReturnType<typeof createStallMonitor>
+
+export const readPlaybackEnvironment = (probe: HTMLMediaElement): PlaybackEnvironment => {
+    const connection = (navigator as Navigator & { connection?: ConnectionHints }).connection
+    return {
+        viewportWidth: window.innerWidth,
+        viewportHeight: window.innerHeight,
+        devicePixelRatio: window.devicePixelRatio || 1,
+        connection: connection
+            ? { effectiveType: connection.effectiveType, saveData: connection.saveData, downlink: connection.downlink }
+            : null,
+        canPlay: type => probe.canPlayType(type) !== ''
+    }
+}
+
+// Calls back with a fresh environment once a resize or connection change settles; returns a stop function
+export const watchPlaybackEnvironment = (
+    probe: HTMLMediaElement,
+    onChange: (env: PlaybackEnvironment) => void,
+    wait: number = 500
+) => {
+    const connection = (navigator as Navigator & { connection?: EventTarget }).connection
+    const changed = debounce(() => onChange(readPlaybackEnvironment(probe)), wait)
+
+    window.addEventListener('resize', changed)
+    connection?.addEventListener('change', changed)
+
+    return () => {
+        changed.cancel()
+        window.removeEventListener('resize', changed)
+        connection?.removeEventListener('change', changed)
+    }
+}
+
+// Read the intrinsic size of a video, and its bitrate when the byte size is known
+export const probeVideo = (url: string, byteSize: number | null = null) => {
+    return new Promise<{ width: number, height: number, bitrate: number | null } | null>(resolve => {
+        const video = document.createElement('video')
+
+        video.preload = 'metadata'
+        video.onloadedmetadata = () => {
+            const bitrate = byteSize && Number.isFinite(video.duration) && video.duration > 0
+                ? Math.round((byteSize * 8) / video.duration / 1000)
+                : null
+            resolve({ width: video.videoWidth, height: video.videoHeight, bitrate })
+        }
+        video.onerror = () => resolve(null)
+        video.src = url
+    })
+}
+
+// Read the intrinsic size and bitrate of a video file before uploading it
+export const probeVideoFile = async (file: File) => {
+    const url = URL.createObjectURL(file)
+    try {
+        return await probeVideo(url, file.size)
+    } finally {
+        URL.revokeObjectURL(url)
+    }
+}
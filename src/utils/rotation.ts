@@ -0,0 +1,36 @@
+export type RotationOrder = 'sequential' | 'random'
+
+// Pick the index of the next wallpaper in a rotation queue
+export const pickNextIndex = (
+    length: number,
+    currentIndex: number,
+    order: RotationOrder,
+    random: () => number = Math.random
+): number => {
+    if (length <= 0) return -1
+    if (length === 1) return 0
+
+    if (order === 'sequential') {
+        return currentIndex < 0 ? 0 : (currentIndex + 1) % length
+    }
+
+    // Random order never repeats the wallpaper that is already showing
+    if (currentIndex < 0 || currentIndex >= length) {
+        return Math.floor(random() * length)
+    }
+    const offset = 1 + Math.floor(random() * (length - 1))
+    return (currentIndex + offset) % length
+}
+
+// Pick the index of the previous wallpaper in a sequential queue
+export const pickPreviousIndex = (length: number, currentIndex: number): number => {
+    if (length <= 0) return -1
+    if (currentIndex <= 0) return length - 1
+    return Math.min(currentIndex, length) - 1
+}
+
+// Milliseconds left until the next rotation, never negative
+export const remainingUntil = (nextRotationAt: number | null, now: number = Date.now()): number => {
+    if (nextRotationAt === null) return 0
+    return Math.max(0, nextRotationAt - now)
+}
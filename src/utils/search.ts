@@ -0,0 +1,7 @@
+// Wait this long after the last keystroke before asking the server
+export const SEARCH_DEBOUNCE_MS = 300
+
+const MAX_QUERY_LENGTH = 100
+
+// Collapse whitespace and cap the length; an empty result means "not searching"
+export const normalizeSearchQuery = (query: string) => query.replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH)
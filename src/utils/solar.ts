@@ -0,0 +1,54 @@
+export interface SunPosition {
+    elevation: number // degrees above the horizon
+    rising: boolean // before solar noon
+}
+
+const RADIANS = Math.PI / 180
+
+// NOAA's low-precision solar position equations, good to about a degree
+export const sunPosition = (date: Date, latitude: number, longitude: number): SunPosition => {
+    const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1)
+    const dayOfYear = Math.floor((date.getTime() - startOfYear) / 86_400_000)
+    const hours = date.getUTCHours() + date.getUTCMinutes() / 60 + date.getUTCSeconds() / 3600
+    const gamma = (2 * Math.PI / 365) * (dayOfYear + (hours - 12) / 24)
+
+    const equationOfTime = 229.18 * (
+        0.000075 +
+        0.001868 * Math.cos(gamma) -
+        0.032077 * Math.sin(gamma) -
+        0.014615 * Math.cos(2 * gamma) -
+        0.040849 * Math.sin(2 * gamma)
+    )
+    const declination =
+        0.006918 -
+        0.399912 * Math.cos(gamma) +
+        0.070257 * Math.sin(gamma) -
+        0.006758 * Math.cos(2 * gamma) +
+        0.000907 * Math.sin(2 * gamma) -
+        0.002697 * Math.cos(3 * gamma) +
+        0.00148 * Math.sin(3 * gamma)
+
+    // Minutes of true solar time, then the hour angle in degrees (0 at solar noon)
+    const solarMinutes = hours * 60 + equationOfTime + 4 * longitude
+    const hourAngle = ((solarMinutes / 4 - 180) % 360 + 540) % 360 - 180
+
+    const lat = latitude * RADIANS
+    const cosZenith =
+        Math.sin(lat) * Math.sin(declination) +
+        Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle * RADIANS)
+    const zenith = Math.acos(Math.min(1, Math.max(-1, cosZenith))) / RADIANS
+
+    return { elevation: 90 - zenith, rising: hourAngle < 0 }
+}
+
+// Unroll elevation into one value that keeps increasing through the day:
+// 0 → 180 while the sun rises from -90° to 90°, 180 → 360 while it sets again
+export const solarCycle = (elevation: number, rising: boolean) =>
+    rising ? 90 + elevation : 270 - elevation
+
+export const fromSolarCycle = (cycle: number): SunPosition => {
+    const value = ((cycle % 360) + 360) % 360
+    return value < 180
+        ? { elevation: value - 90, rising: true }
+        : { elevation: 270 - value, rising: false }
+}
@@ -0,0 +1,36 @@
+import type { ITagCount, TagAliases } from '../types/tags'
+
+// Same rules as slugify_tag in supabase-schema.sql: lowercase, runs of anything
+// but letters and digits become one hyphen, no hyphens at the ends
+export const slugifyTag = (tag: string) =>
+    tag.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '')
+
+// Slugs with aliases resolved and duplicates dropped, in first-seen order
+export const normalizeTags = (tags: string[], aliases: TagAliases = {}) => {
+    const result: string[] = []
+    for (const tag of tags) {
+        const slug = slugifyTag(tag)
+        const resolved = aliases[slug] ?? slug
+        if (resolved && !result.includes(resolved)) result.push(resolved)
+    }
+    return result
+}
+
+// Comma separated text, as typed or pasted
+export const splitTagInput = (text: string) => text.split(',').map(tag => tag.trim()).filter(Boolean)
+
+// Tags starting with the query come first, then ones containing it; more used first within each
+export const suggestTags = (query: string, counts: ITagCount[], exclude: string[] = [], limit: number = 8) => {
+    const slug = slugifyTag(query)
+    if (!slug) return []
+
+    return counts
+        .filter(tag => !tag.hidden && !exclude.includes(tag.slug))
+        .map(tag => ({ tag, index: tag.slug.indexOf(slug) }))
+        .filter(({ index }) => index >= 0)
+        .sort((a, b) =>
+            Number(b.index === 0) - Number(a.index === 0) || b.tag.wallpaper_count - a.tag.wallpaper_count
+        )
+        .slice(0, limit)
+        .map(({ tag }) => tag)
+}
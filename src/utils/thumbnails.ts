@@ -0,0 +1,177 @@
+import { id3TagSize, readId3Cover } from './id3'
+
+// Stills are stored as JPEG, which every browser can encode; the gallery shows them at card size
+const THUMBNAIL_WIDTH = 640
+const THUMBNAIL_TYPE = 'image/jpeg'
+const THUMBNAIL_QUALITY = 0.8
+const COVER_WIDTH = 256
+
+// Hover previews: a few seconds of small, low-bitrate video recorded from a canvas
+const PREVIEW_WIDTH = 320
+const PREVIEW_SECONDS = 3
+const PREVIEW_FPS = 24
+const PREVIEW_BITRATE = 300_000
+const PREVIEW_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4']
+
+export interface WallpaperThumbnails {
+    thumbnail: File | null // still image for lists and cards
+    preview: File | null // short muted loop, videos only
+}
+
+// Scale down to a maximum width keeping the aspect ratio, never up
+export const thumbnailSize = (width: number, height: number, maxWidth: number) => {
+    const scale = Math.min(1, maxWidth / width)
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) }
+}
+
+// Seconds of a video to use for the preview loop: from a tenth of the way in, past any fade from black
+export const previewWindow = (duration: number, length: number = PREVIEW_SECONDS) => {
+    if (!Number.isFinite(duration) || duration <= 0) return { start: 0, end: length }
+    const start = Math.min(duration * 0.1, Math.max(0, duration - length))
+    return { start, end: Math.min(duration, start + length) }
+}
+
+const extensionFor = (mimeType: string) => (mimeType.includes('mp4') ? 'mp4' : mimeType.includes('webm') ? 'webm' : 'jpg')
+
+const toFile = (blob: Blob, name: string) =>
+    new File([blob], `${name}.${extensionFor(blob.type)}`, { type: blob.type })
+
+const drawStill = async (source: CanvasImageSource, width: number, height: number, maxWidth: number) => {
+    const size = thumbnailSize(width, height, maxWidth)
+    const canvas = document.createElement('canvas')
+    canvas.width = size.width
+    canvas.height = size.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas is not available')
+
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(source, 0, 0, size.width, size.height)
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, THUMBNAIL_TYPE, THUMBNAIL_QUALITY))
+    if (!blob) throw new Error('Failed to encode thumbnail')
+    return blob
+}
+
+// Resized still of an image; animated GIFs decode to their first frame
+const imageThumbnail = async (image: Blob, maxWidth: number) => {
+    const bitmap = await createImageBitmap(image)
+    try {
+        return await drawStill(bitmap, bitmap.width, bitmap.height, maxWidth)
+    } finally {
+        bitmap.close()
+    }
+}
+
+const seekTo = (video: HTMLVideoElement, time: number) =>
+    new Promise<void>((resolve, reject) => {
+        video.onseeked = () => resolve()
+        video.onerror = () => reject(new Error('Failed to seek video'))
+        video.currentTime = time
+    })
+
+// Plays the window in real time while copying frames to a recorded canvas
+const recordPreview = async (video: HTMLVideoElement, start: number, end: number) => {
+    const mimeType =
+        typeof MediaRecorder === 'undefined' ? null : PREVIEW_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    if (!mimeType) return null
+
+    const size = thumbnailSize(video.videoWidth, video.videoHeight, PREVIEW_WIDTH)
+    const canvas = document.createElement('canvas')
+    canvas.width = size.width
+    canvas.height = size.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+
+    const recorder = new MediaRecorder(canvas.captureStream(PREVIEW_FPS), {
+        mimeType,
+        videoBitsPerSecond: PREVIEW_BITRATE
+    })
+    const chunks: Blob[] = []
+    recorder.ondataavailable = event => chunks.push(event.data)
+    const stopped = new Promise(resolve => (recorder.onstop = resolve))
+
+    await seekTo(video, start)
+    recorder.start()
+    await video.play()
+    // Timers rather than animation frames, which stop while the tab is hidden
+    await new Promise<void>(resolve => {
+        const draw = () => {
+            ctx.drawImage(video, 0, 0, size.width, size.height)
+            if (video.currentTime >= end || video.ended) return resolve()
+            setTimeout(draw, 1000 / PREVIEW_FPS)
+        }
+        draw()
+    })
+    video.pause()
+    recorder.stop()
+    await stopped
+
+    return new Blob(chunks, { type: mimeType.split(';')[0] })
+}
+
+const videoThumbnails = async (file: File, name: string): Promise<WallpaperThumbnails> => {
+    const url = URL.createObjectURL(file)
+    const video = document.createElement('video')
+    try {
+        await new Promise<void>((resolve, reject) => {
+            video.muted = true
+            video.playsInline = true
+            video.preload = 'auto'
+            video.onloadeddata = () => resolve()
+            video.onerror = () => reject(new Error('Failed to load video'))
+            video.src = url
+        })
+
+        const { start, end } = previewWindow(video.duration)
+        await seekTo(video, start)
+        const poster = await drawStill(video, video.videoWidth, video.videoHeight, THUMBNAIL_WIDTH)
+
+        let preview: Blob | null = null
+        try {
+            preview = await recordPreview(video, start, end)
+        } catch (err) {
+            console.error('Failed to record wallpaper preview:', err)
+        }
+
+        return {
+            thumbnail: toFile(poster, `${name}-thumb`),
+            preview: preview && preview.size > 0 ? toFile(preview, `${name}-preview`) : null
+        }
+    } finally {
+        video.removeAttribute('src')
+        video.load()
+        URL.revokeObjectURL(url)
+    }
+}
+
+// Thumbnails to upload next to a wallpaper's file, none when they can't be made (e.g. an unsupported codec)
+export const generateWallpaperThumbnails = async (file: File, kind: string): Promise<WallpaperThumbnails> => {
+    const name = file.name.replace(/\.[^.]+$/, '')
+    try {
+        if (kind === 'image') {
+            return { thumbnail: toFile(await imageThumbnail(file, THUMBNAIL_WIDTH), `${name}-thumb`), preview: null }
+        }
+        if (kind === 'video') return await videoThumbnails(file, name)
+    } catch (err) {
+        console.error('Failed to generate wallpaper thumbnails:', err)
+    }
+    return { thumbnail: null, preview: null }
+}
+
+// Cover art embedded in an audio file, resized for lists; null when there is none
+export const extractTrackCover = async (file: File) => {
+    try {
+        const header = new Uint8Array(await file.slice(0, 10).arrayBuffer())
+        const size = id3TagSize(header)
+        if (!size) return null
+
+        const cover = readId3Cover(new Uint8Array(await file.slice(0, size).arrayBuffer()))
+        if (!cover) return null
+
+        const name = file.name.replace(/\.[^.]+$/, '')
+        const image = new Blob([cover.data], { type: cover.mimeType })
+        return toFile(await imageThumbnail(image, COVER_WIDTH), `${name}-cover`)
+    } catch (err) {
+        console.error('Failed to read track cover:', err)
+        return null
+    }
+}
@@ -0,0 +1,270 @@
+// Resumable uploads over the tus protocol (https://tus.io/protocols/resumable-upload), which Supabase Storage
+// serves at /storage/v1/upload/resumable. The file goes up in chunks; after a dropped connection the server
+// is asked how much it has and the upload carries on from there.
+
+export const TUS_VERSION = '1.0.0'
+
+// Supabase Storage only accepts 6 MB chunks
+export const DEFAULT_CHUNK_SIZE = 6 * 1024 * 1024
+
+export type TusUploadStatus = 'pending' | 'uploading' | 'paused' | 'retrying' | 'done' | 'error' | 'cancelled'
+
+export interface TusProgress {
+    status: TusUploadStatus
+    bytesUploaded: number
+    bytesTotal: number
+    speed: number // bytes per second over the last few seconds
+    attempt: number // failed tries in a row, reset by every chunk that gets through
+}
+
+export interface TusUploadOptions {
+    endpoint: string
+    metadata?: Record<string, string>
+    // Called before every request, so a long upload picks up refreshed access tokens
+    headers?: () => Promise<Record<string, string>> | Record<string, string>
+    chunkSize?: number
+    maxRetries?: number
+    retryBaseDelay?: number // ms, doubled for every failed try
+    retryMaxDelay?: number
+    onProgress?: (progress: TusProgress) => void
+    fetch?: typeof fetch // a stand-in server in tests
+}
+
+const SPEED_WINDOW_MS = 3000
+
+// Wait before the next try: 1 s, 2 s, 4 s… up to the maximum
+export const retryDelay = (attempt: number, base: number = 1000, max: number = 30000) =>
+    Math.min(max, base * 2 ** attempt)
+
+// Network failures (status 0), offset conflicts, locks, rate limits and server errors are worth another try
+export const isRetryable = (status: number) =>
+    status === 0 || status === 409 || status === 423 || status === 429 || status >= 500
+
+// Upload-Metadata: comma separated "key base64(value)" pairs
+export const encodeMetadata = (metadata: Record<string, string>) =>
+    Object.entries(metadata)
+        .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+        .join(',')
+
+// Bytes per second between the oldest and newest sample in the window
+export const measureSpeed = (samples: { time: number, bytes: number }[]) => {
+    if (samples.length < 2) return 0
+    const first = samples[0]
+    const last = samples[samples.length - 1]
+    const seconds = (last.time - first.time) / 1000
+    return seconds > 0 ? (last.bytes - first.bytes) / seconds : 0
+}
+
+const requestError = (message: string, status: number) => Object.assign(new Error(message), { status })
+
+const statusOf = (err: unknown) =>
+    typeof err === 'object' && err !== null && 'status' in err && typeof err.status === 'number' ? err.status : 0
+
+export const createTusUpload = (file: Blob, options: TusUploadOptions) => {
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+    const maxRetries = options.maxRetries ?? 5
+    const request = options.fetch ?? fetch
+
+    let uploadUrl: string | null = null
+    let offset = 0
+    let status: TusUploadStatus = 'pending'
+    let attempt = 0
+    let samples: { time: number, bytes: number }[] = []
+    let running: Promise<string> | null = null
+    let inFlight: AbortController | null = null
+    // Wakes the loop from a pause or a retry wait
+    let wake: (() => void) | null = null
+
+    const progress = (): TusProgress => ({
+        status,
+        bytesUploaded: offset,
+        bytesTotal: file.size,
+        speed: status === 'uploading' ? measureSpeed(samples) : 0,
+        attempt
+    })
+
+    const setStatus = (next: TusUploadStatus) => {
+        status = next
+        if (next !== 'uploading') samples = []
+        options.onProgress?.(progress())
+    }
+
+    const setOffset = (next: number) => {
+        offset = next
+        const time = Date.now()
+        samples = [...samples.filter(sample => time - sample.time <= SPEED_WINDOW_MS), { time, bytes: next }]
+        options.onProgress?.(progress())
+    }
+
+    const send = async (url: string, method: string, headers: Record<string, string>, body?: Blob) => {
+        // Header errors (e.g. signed out) aren't network trouble and end the upload
+        const extraHeaders = await options.headers?.()
+        const controller = new AbortController()
+        inFlight = controller
+        try {
+            return await request(url, {
+                method,
+                body,
+                headers: { ...extraHeaders, 'Tus-Resumable': TUS_VERSION, ...headers },
+                signal: controller.signal
+            })
+        } catch (err) {
+            if (controller.signal.aborted) throw err
+            throw requestError(err instanceof Error ? err.message : 'Network error', 0)
+        } finally {
+            inFlight = null
+        }
+    }
+
+    const readOffset = (response: Response) => {
+        const value = Number(response.headers.get('Upload-Offset'))
+        if (!Number.isInteger(value) || value < 0) throw requestError('Missing Upload-Offset', response.status)
+        return value
+    }
+
+    const create = async () => {
+        const headers: Record<string, string> = { 'Upload-Length': String(file.size) }
+        if (options.metadata) headers['Upload-Metadata'] = encodeMetadata(options.metadata)
+
+        const response = await send(options.endpoint, 'POST', headers)
+        const location = response.headers.get('Location')
+        if (response.status !== 201 || !location) {
+            throw requestError(`Failed to create upload (${response.status})`, response.status)
+        }
+        return new URL(location, options.endpoint).toString()
+    }
+
+    // How much the server already has; null when it no longer knows the upload
+    const fetchOffset = async (url: string) => {
+        const response = await send(url, 'HEAD', {})
+        if (response.status === 404 || response.status === 410) return null
+        if (!response.ok) throw requestError(`Failed to resume upload (${response.status})`, response.status)
+        return readOffset(response)
+    }
+
+    const sendChunk = async (url: string) => {
+        const response = await send(
+            url,
+            'PATCH',
+            { 'Content-Type': 'application/offset+octet-stream', 'Upload-Offset': String(offset) },
+            file.slice(offset, offset + chunkSize)
+        )
+        if (response.status !== 204) throw requestError(`Failed to upload chunk (${response.status})`, response.status)
+        return readOffset(response)
+    }
+
+    // Best effort, the server expires abandoned uploads on its own
+    const terminate = async (url: string) => {
+        try {
+            await request(url, { method: 'DELETE', headers: { ...(await options.headers?.()), 'Tus-Resumable': TUS_VERSION } })
+        } catch (err) {
+            console.error('Failed to discard cancelled upload:', err)
+        }
+    }
+
+    // Pausing and cancelling happen from outside the loop while it awaits
+    const stopped = () => status === 'paused' || status === 'cancelled'
+
+    const sleep = (ms: number) =>
+        new Promise<void>(resolve => {
+            const timer = setTimeout(() => {
+                wake = null
+                resolve()
+            }, ms)
+            wake = () => {
+                clearTimeout(timer)
+                wake = null
+                resolve()
+            }
+        })
+
+    const waitForResume = () =>
+        new Promise<void>(resolve => {
+            wake = () => {
+                wake = null
+                resolve()
+            }
+        })
+
+    const run = async () => {
+        // After a failure or pause the server may have kept more or less than was acknowledged
+        let synced = true
+
+        while (true) {
+            if (status === 'cancelled') throw new Error('Upload cancelled')
+            if (status === 'paused') {
+                await waitForResume()
+                synced = false
+                continue
+            }
+
+            try {
+                if (!uploadUrl) {
+                    uploadUrl = await create()
+                    setOffset(0)
+                } else if (!synced) {
+                    const serverOffset = await fetchOffset(uploadUrl)
+                    if (serverOffset === null) {
+                        uploadUrl = null
+                        continue
+                    }
+                    setOffset(serverOffset)
+                    synced = true
+                }
+                if (status === 'pending') setStatus('uploading')
+
+                if (offset >= file.size) break
+                setOffset(await sendChunk(uploadUrl))
+                attempt = 0
+            } catch (err) {
+                // Pausing and cancelling abort the request in flight, the loop head handles both
+                if (stopped()) continue
+
+                synced = false
+                if (!isRetryable(statusOf(err)) || attempt >= maxRetries) {
+                    setStatus('error')
+                    throw err instanceof Error ? err : new Error('Upload failed')
+                }
+                setStatus('retrying')
+                await sleep(retryDelay(attempt++, options.retryBaseDelay, options.retryMaxDelay))
+                if (status === 'retrying') setStatus('uploading')
+            }
+        }
+
+        setStatus('done')
+        return uploadUrl
+    }
+
+    // Resolves with the upload's URL once every byte is stored, rejects on cancel or when retries run out.
+    // A paused upload keeps the promise pending until it's resumed.
+    const start = () => {
+        running ??= run()
+        return running
+    }
+
+    const pause = () => {
+        if (status !== 'uploading' && status !== 'retrying' && status !== 'pending') return
+        setStatus('paused')
+        inFlight?.abort()
+        wake?.()
+    }
+
+    const resume = () => {
+        if (status !== 'paused') return
+        setStatus('uploading')
+        wake?.()
+    }
+
+    // Stops the upload and asks the server to throw away what it has
+    const cancel = () => {
+        if (status === 'done' || status === 'error' || status === 'cancelled') return
+        setStatus('cancelled')
+        inFlight?.abort()
+        wake?.()
+        if (uploadUrl) void terminate(uploadUrl)
+    }
+
+    return { start, pause, resume, cancel, progress }
+}
+
+export type TusUpload = ReturnType<typeof createTusUpload>
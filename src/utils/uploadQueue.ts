@@ -0,0 +1,53 @@
+import type { UploadTarget } from './uploadValidation'
+
+export interface FileNameDetails {
+    title: string
+    artist: string | null // music only, from "Artist - Title"
+    tags: string[]
+}
+
+// Prefill for an upload from its file name, e.g. "Daft_Punk - Veridis Quo [electronic, 2001].mp3"
+// or "northern-lights #aurora #night_sky.jpg". Underscores and dots read as spaces.
+export const parseFileName = (name: string, target: UploadTarget): FileNameDetails => {
+    const tags: string[] = []
+    const base = name
+        .replace(/\.[^.]+$/, '')
+        .replace(/\[([^\]]*)\]/g, (_, list: string) => {
+            tags.push(...list.split(','))
+            return ' '
+        })
+        .replace(/(^|\s)#([\p{L}\p{N}_-]+)/gu, (_, space: string, tag: string) => {
+            tags.push(tag)
+            return space
+        })
+        .replace(/[_.]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+
+    const separator = target === 'music' ? base.indexOf(' - ') : -1
+    const artist = separator > 0 ? base.slice(0, separator).trim() : null
+    const title = separator > 0 ? base.slice(separator + 3).trim() : base
+
+    return {
+        title: title || name,
+        artist,
+        tags: tags.map(tag => tag.trim()).filter(Boolean)
+    }
+}
+
+// Queued items to start so that no more than `limit` run at once, in queue order
+export const itemsToStart = <T extends { status: string }>(items: T[], limit: number) => {
+    const running = items.filter(item => item.status === 'uploading').length
+    return items.filter(item => item.status === 'queued').slice(0, Math.max(0, limit - running))
+}
+
+// Run `task` for every item with at most `limit` running at once, in order
+export const forEachLimited = async <T>(items: T[], limit: number, task: (item: T) => Promise<void>) => {
+    let next = 0
+    const worker = async () => {
+        while (next < items.length) {
+            await task(items[next++])
+        }
+    }
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
@@ -0,0 +1,241 @@
+import { findKindByMimeType, sniffFileMimeType } from './mediaTypes'
+import { formatBytes, formatDuration } from './mediaInfo'
+import { parseParticleScene } from './particleEngine'
+
+export type UploadTarget = 'wallpaper' | 'music'
+export type UploadKind = 'image' | 'video' | 'particles' | 'audio'
+
+export type UploadRejection =
+    | { code: 'empty-file' }
+    | { code: 'unsupported-type', mimeType: string | null }
+    | { code: 'file-too-large', limit: number, actual: number } // bytes
+    | { code: 'resolution-too-low', minimum: Dimensions, actual: Dimensions }
+    | { code: 'duration-too-long', limit: number, actual: number } // seconds
+    | { code: 'decode-failed', reason?: string }
+
+export type UploadErrorCode = UploadRejection['code']
+
+export interface Dimensions {
+    width: number
+    height: number
+}
+
+// What a file was found to be once it passed every check
+export interface ValidatedUpload {
+    kind: UploadKind
+    mimeType: string
+    extension: string // from the contents, never the file name
+    width: number | null
+    height: number | null
+    duration: number | null // seconds
+}
+
+interface KindLimits {
+    maxBytes: number
+    minSize?: Dimensions // as landscape, portrait files are checked rotated
+    maxDuration?: number
+}
+
+const MB = 1024 * 1024
+
+export const UPLOAD_LIMITS: Record<UploadKind, KindLimits> = {
+    image: { maxBytes: 25 * MB, minSize: { width: 1280, height: 720 } },
+    video: { maxBytes: 200 * MB, minSize: { width: 1280, height: 720 }, maxDuration: 120 },
+    particles: { maxBytes: 1 * MB },
+    audio: { maxBytes: 50 * MB, maxDuration: 15 * 60 }
+}
+
+// Types each upload accepts, detected from the file's leading bytes, with the extension to store them under.
+// SVG is left out on purpose: it can carry scripts.
+const ACCEPTED_TYPES: Record<UploadTarget, Record<string, string>> = {
+    wallpaper: {
+        'image/jpeg': 'jpg',
+        'image/png': 'png',
+        'image/apng': 'png',
+        'image/gif': 'gif',
+        'image/webp': 'webp',
+        'image/avif': 'avif',
+        'video/mp4': 'mp4',
+        'video/webm': 'webm',
+        'video/quicktime': 'mov',
+        'video/ogg': 'ogv',
+        'application/json': 'json'
+    },
+    music: {
+        'audio/mpeg': 'mp3',
+        'audio/mp4': 'm4a',
+        'audio/aac': 'aac',
+        'audio/ogg': 'ogg',
+        'audio/flac': 'flac',
+        'audio/wav': 'wav',
+        'audio/webm': 'weba'
+    }
+}
+
+// Decoding a damaged file can stall instead of failing
+const DECODE_TIMEOUT_MS = 15000
+
+// Containers sniff as video unless their brand says audio; for music they hold sound only
+const audioContainer = (mimeType: string) =>
+    mimeType === 'video/mp4' || mimeType === 'video/webm' ? mimeType.replace('video/', 'audio/') : mimeType
+
+// Storage extension for a detected type, e.g. for generated thumbnails
+export const uploadExtension = (mimeType: string) =>
+    ACCEPTED_TYPES.wallpaper[mimeType] ?? ACCEPTED_TYPES.music[mimeType] ?? null
+
+// Extensions to list in messages and file pickers
+export const acceptedExtensions = (target: UploadTarget) =>
+    Array.from(new Set(Object.values(ACCEPTED_TYPES[target])))
+
+const kindOf = (target: UploadTarget, mimeType: string): UploadKind =>
+    target === 'music' ? 'audio' : (findKindByMimeType(mimeType)?.kind as UploadKind)
+
+// Checks that need only the size and detected type, run before anything is decoded
+export const checkFile = (target: UploadTarget, size: number, mimeType: string | null): UploadRejection | null => {
+    if (size === 0) return { code: 'empty-file' }
+    if (!mimeType || !ACCEPTED_TYPES[target][mimeType]) return { code: 'unsupported-type', mimeType }
+
+    const { maxBytes } = UPLOAD_LIMITS[kindOf(target, mimeType)]
+    if (size > maxBytes) return { code: 'file-too-large', limit: maxBytes, actual: size }
+    return null
+}
+
+// Checks on what decoding found
+export const checkDecoded = (
+    kind: UploadKind,
+    media: { width: number | null, height: number | null, duration: number | null }
+): UploadRejection | null => {
+    const { minSize, maxDuration } = UPLOAD_LIMITS[kind]
+
+    if (minSize && media.width !== null && media.height !== null) {
+        const long = Math.max(media.width, media.height)
+        const short = Math.min(media.width, media.height)
+        if (long < minSize.width || short < minSize.height) {
+            return { code: 'resolution-too-low', minimum: minSize, actual: { width: media.width, height: media.height } }
+        }
+    }
+    if (maxDuration && media.duration !== null && media.duration > maxDuration) {
+        return { code: 'duration-too-long', limit: maxDuration, actual: media.duration }
+    }
+    return null
+}
+
+const formatSize = ({ width, height }: Dimensions) => `${width} × ${height}`
+
+// A sentence for the upload panel
+export const describeRejection = (rejection: UploadRejection, target: UploadTarget = 'wallpaper') => {
+    switch (rejection.code) {
+        case 'empty-file':
+            return 'The file is empty.'
+        case 'unsupported-type': {
+            const accepted = acceptedExtensions(target).map(extension => extension.toUpperCase()).join(', ')
+            return rejection.mimeType
+                ? `${rejection.mimeType} files aren't supported. Use ${accepted}.`
+                : `This file type isn't recognised. Use ${accepted}.`
+        }
+        case 'file-too-large':
+            return `The file is ${formatBytes(rejection.actual)}, the limit for this type is ${formatBytes(rejection.limit)}.`
+        case 'resolution-too-low':
+            return `The picture is ${formatSize(rejection.actual)}, wallpapers need at least ${formatSize(rejection.minimum)}.`
+        case 'duration-too-long':
+            return `It runs ${formatDuration(rejection.actual)}, the limit is ${formatDuration(rejection.limit)}.`
+        case 'decode-failed':
+            return rejection.reason
+                ? `The file couldn't be read: ${rejection.reason}`
+                : "The file couldn't be read. It may be damaged or use an unsupported codec."
+    }
+}
+
+const withTimeout = <T>(promise: Promise<T>) =>
+    Promise.race([
+        promise,
+        new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Timed out')), DECODE_TIMEOUT_MS))
+    ])
+
+const loadMedia = (file: File, tag: 'video' | 'audio') => {
+    const url = URL.createObjectURL(file)
+    const element = document.createElement(tag)
+    return withTimeout(
+        new Promise<{ width: number | null, height: number | null, duration: number | null }>((resolve, reject) => {
+            element.preload = 'metadata'
+            element.muted = true
+            element.onloadedmetadata = () => {
+                const video = element instanceof HTMLVideoElement
+                if (video && !element.videoWidth) return reject(new Error('No video track'))
+                resolve({
+                    width: video ? element.videoWidth : null,
+                    height: video ? element.videoHeight : null,
+                    duration: Number.isFinite(element.duration) ? element.duration : null
+                })
+            }
+            element.onerror = () => reject(new Error('Failed to load media'))
+            element.src = url
+        })
+    ).finally(() => {
+        element.removeAttribute('src')
+        element.load()
+        URL.revokeObjectURL(url)
+    })
+}
+
+const decode = async (file: File, kind: UploadKind) => {
+    switch (kind) {
+        case 'image': {
+            const bitmap = await withTimeout(createImageBitmap(file))
+            const size = { width: bitmap.width, height: bitmap.height, duration: null }
+            bitmap.close()
+            return size
+        }
+        case 'video':
+            return loadMedia(file, 'video')
+        case 'audio':
+            return loadMedia(file, 'audio')
+        case 'particles':
+            parseParticleScene(JSON.parse(await file.text()))
+            return { width: null, height: null, duration: null }
+    }
+}
+
+export type UploadValidation = { data: ValidatedUpload, error: null } | { data: null, error: UploadRejection }
+
+const runPipeline = async (file: File, target: UploadTarget): Promise<UploadValidation> => {
+    const sniffed = file.size > 0 ? await sniffFileMimeType(file) : null
+    const mimeType = sniffed && target === 'music' ? audioContainer(sniffed.mimeType) : sniffed?.mimeType ?? null
+
+    const fileError = checkFile(target, file.size, mimeType)
+    if (fileError || !mimeType) return { data: null, error: fileError ?? { code: 'unsupported-type', mimeType } }
+
+    const kind = kindOf(target, mimeType)
+    let media: Awaited<ReturnType<typeof decode>>
+    try {
+        media = await decode(file, kind)
+    } catch (err) {
+        // Scene files explain what is wrong with them, media errors say nothing useful
+        const reason = kind === 'particles' && err instanceof Error ? err.message : undefined
+        return { data: null, error: { code: 'decode-failed', reason } }
+    }
+
+    const mediaError = checkDecoded(kind, media)
+    if (mediaError) return { data: null, error: mediaError }
+
+    return {
+        data: { kind, mimeType, extension: ACCEPTED_TYPES[target][mimeType], ...media },
+        error: null
+    }
+}
+
+const validations = new WeakMap<File, Map<UploadTarget, Promise<UploadValidation>>>()
+
+// Everything an upload must pass before any Supabase call. Cached per file, so the panel's
+// check on selection and the composable's check before uploading decode it once.
+export const validateUpload = (file: File, target: UploadTarget) => {
+    const results = validations.get(file) ?? new Map<UploadTarget, Promise<UploadValidation>>()
+    validations.set(file, results)
+
+    let result = results.get(target)
+    if (!result) {
+        result = runPipeline(file, target)
+        results.set(target, result)
+    }
+    return result
+}
@@ -0,0 +1,56 @@
+export interface GridOptions {
+    containerWidth: number
+    viewportHeight: number
+    scrollTop: number
+    itemCount: number
+    minColumnWidth: number
+    aspectRatio: number // width / height of each cell
+    gap: number
+    overscanRows?: number
+}
+
+export interface GridLayout {
+    columns: number
+    itemWidth: number
+    itemHeight: number
+    rowHeight: number
+    totalHeight: number
+    startIndex: number // first item to render
+    endIndex: number // one past the last item to render
+}
+
+// Only the rows in (or near) the viewport are rendered, the rest is empty space of the right height
+export const computeGridLayout = (options: GridOptions): GridLayout => {
+    const { containerWidth, viewportHeight, scrollTop, itemCount, minColumnWidth, aspectRatio, gap } = options
+    const overscanRows = options.overscanRows ?? 2
+
+    const columns = Math.max(1, Math.floor((containerWidth + gap) / (minColumnWidth + gap)))
+    const itemWidth = Math.max(0, (containerWidth - gap * (columns - 1)) / columns)
+    const itemHeight = itemWidth / aspectRatio
+    const rowHeight = itemHeight + gap
+    const rows = Math.ceil(itemCount / columns)
+    const totalHeight = rows > 0 ? rows * rowHeight - gap : 0
+
+    // Nothing to lay out until the container has been measured
+    if (itemWidth <= 0) {
+        return { columns, itemWidth, itemHeight, rowHeight, totalHeight, startIndex: 0, endIndex: 0 }
+    }
+
+    const firstRow = Math.max(0, Math.floor(scrollTop / rowHeight) - overscanRows)
+    const lastRow = Math.min(rows, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscanRows)
+
+    return {
+        columns,
+        itemWidth,
+        itemHeight,
+        rowHeight,
+        totalHeight,
+        startIndex: firstRow * columns,
+        endIndex: Math.min(itemCount, lastRow * columns)
+    }
+}
+
+export const itemPosition = (index: number, layout: GridLayout, gap: number) => ({
+    left: (index % layout.columns) * (layout.itemWidth + gap),
+    top: Math.floor(index / layout.columns) * layout.rowHeight
+})
@@ -0,0 +1,115 @@
+import type { IParticleScene } from '../types/particles'
+import type { WeatherOverlay } from '../types/composition'
+import { parseParticleScene } from './particleEngine'
+
+interface WeatherPreset {
+    label: string
+    // Scene at full intensity, counts and rates are scaled down from here
+    scene: Record<string, unknown> & { particleCount: number, emitters: Record<string, unknown>[] }
+}
+
+export const WEATHER_PRESETS: Record<WeatherOverlay, WeatherPreset> = {
+    rain: {
+        label: 'Rain',
+        scene: {
+            particleCount: 900,
+            gravity: 600,
+            wind: 40,
+            particleStyle: 'streak',
+            emitters: [{
+                shape: 'line',
+                x: -0.1,
+                y: -0.05,
+                width: 1.2,
+                rate: 600,
+                lifetime: [1.2, 1.8],
+                speed: [500, 700],
+                angle: [95, 100],
+                size: [1, 1.5],
+                opacity: [0.25, 0.5],
+                colors: ['#cbd5e1', '#e2e8f0'],
+                fadeOut: false
+            }]
+        }
+    },
+    snow: {
+        label: 'Snow',
+        scene: {
+            particleCount: 500,
+            gravity: 6,
+            wind: 8,
+            emitters: [{
+                shape: 'line',
+                x: -0.1,
+                y: -0.02,
+                width: 1.2,
+                rate: 60,
+                lifetime: [10, 16],
+                speed: [30, 70],
+                angle: [70, 110],
+                size: [1.5, 4],
+                opacity: [0.6, 0.95],
+                colors: ['#ffffff', '#f1f5f9'],
+                fadeOut: false
+            }]
+        }
+    },
+    fog: {
+        label: 'Fog',
+        scene: {
+            particleCount: 60,
+            wind: 2,
+            emitters: [{
+                shape: 'rect',
+                x: -0.2,
+                y: 0.3,
+                width: 1.4,
+                height: 0.8,
+                rate: 4,
+                lifetime: [14, 22],
+                speed: [5, 20],
+                angle: [-10, 10],
+                size: [120, 260],
+                opacity: [0.04, 0.1],
+                colors: ['#e5e7eb', '#d1d5db']
+            }]
+        }
+    },
+    fireflies: {
+        label: 'Fireflies',
+        scene: {
+            particleCount: 120,
+            gravity: -4,
+            emitters: [{
+                shape: 'rect',
+                x: 0,
+                y: 0.35,
+                width: 1,
+                height: 0.65,
+                rate: 12,
+                lifetime: [4, 8],
+                speed: [5, 25],
+                angle: [0, 360],
+                size: [1.5, 3],
+                opacity: [0.5, 1],
+                colors: ['#fde68a', '#fef3c7', '#bef264']
+            }]
+        }
+    }
+}
+
+// Particle scene for an overlay at a given intensity (0 → 1)
+export const weatherScene = (overlay: WeatherOverlay, intensity: number): IParticleScene => {
+    const preset = WEATHER_PRESETS[overlay]
+    if (!preset) throw new Error(`Unknown weather overlay "${overlay}"`)
+
+    const scale = Math.min(1, Math.max(0.05, intensity))
+    return parseParticleScene({
+        ...preset.scene,
+        particleCount: Math.max(1, Math.round(preset.scene.particleCount * scale)),
+        emitters: preset.scene.emitters.map(emitter => ({
+            ...emitter,
+            rate: (emitter.rate as number) * scale
+        }))
+    })
+}
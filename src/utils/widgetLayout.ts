@@ -0,0 +1,101 @@
+import type { IWidgetInstance, IWidgetSize } from '../types/widgets'
+
+export interface Viewport {
+    width: number
+    height: number
+}
+
+const CASCADE_STEP = 0.03
+let widgetCounter = 0
+
+export const widgetId = () => `widget-${Date.now().toString(36)}-${(widgetCounter++).toString(36)}`
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+// Keep a widget fully on screen and no smaller than its minimum size
+export const clampWidget = (widget: IWidgetInstance, viewport: Viewport, minSize: IWidgetSize): IWidgetInstance => {
+    const width = clamp(widget.width, minSize.width, Math.max(minSize.width, viewport.width))
+    const height = clamp(widget.height, minSize.height, Math.max(minSize.height, viewport.height))
+    const maxX = Math.max(0, 1 - width / viewport.width)
+    const maxY = Math.max(0, 1 - height / viewport.height)
+
+    return {
+        ...widget,
+        width,
+        height,
+        x: clamp(widget.x, 0, maxX),
+        y: clamp(widget.y, 0, maxY)
+    }
+}
+
+// Move by a pointer delta in pixels
+export const moveWidget = (
+    widget: IWidgetInstance,
+    dx: number,
+    dy: number,
+    viewport: Viewport,
+    minSize: IWidgetSize
+) => clampWidget({
+    ...widget,
+    x: widget.x + dx / viewport.width,
+    y: widget.y + dy / viewport.height
+}, viewport, minSize)
+
+// Resize from the bottom-right corner by a pointer delta in pixels
+export const resizeWidget = (
+    widget: IWidgetInstance,
+    dx: number,
+    dy: number,
+    viewport: Viewport,
+    minSize: IWidgetSize
+) => clampWidget({
+    ...widget,
+    width: widget.width + dx,
+    height: widget.height + dy
+}, viewport, minSize)
+
+// New widgets cascade from the top-left so they never stack exactly on top of each other
+export const placeWidget = (
+    type: string,
+    size: IWidgetSize,
+    settings: Record<string, unknown>,
+    existing: IWidgetInstance[],
+    viewport: Viewport
+): IWidgetInstance => {
+    let offset = 0.1
+    while (existing.some(w => Math.abs(w.x - offset) < 0.001 && Math.abs(w.y - offset) < 0.001)) {
+        offset += CASCADE_STEP
+    }
+
+    return clampWidget(
+        { id: widgetId(), type, x: offset, y: offset, ...size, settings: { ...settings } },
+        viewport,
+        size
+    )
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+// Drop malformed entries from a stored layout instead of failing the whole layer
+export const parseWidgetLayout = (input: unknown): IWidgetInstance[] => {
+    if (!Array.isArray(input)) return []
+
+    return input.flatMap(item => {
+        if (!item || typeof item !== 'object') return []
+        const raw = item as Record<string, unknown>
+        if (typeof raw.type !== 'string' || !isNumber(raw.x) || !isNumber(raw.y)) return []
+        if (!isNumber(raw.width) || !isNumber(raw.height)) return []
+
+        return [{
+            id: typeof raw.id === 'string' && raw.id ? raw.id : widgetId(),
+            type: raw.type,
+            x: raw.x,
+            y: raw.y,
+            width: raw.width,
+            height: raw.height,
+            settings: raw.settings && typeof raw.settings === 'object'
+                ? { ...(raw.settings as Record<string, unknown>) }
+                : {}
+        }]
+    })
+}
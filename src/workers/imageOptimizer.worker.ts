@@ -0,0 +1,14 @@
+import { encodeImage } from '../utils/imageOptimizer'
+import type { OptimizeRequest, OptimizeResponse } from '../utils/imageOptimizer'
+
+// Decoding and encoding a large photo takes long enough to freeze the page, so it happens here
+self.addEventListener('message', async (event: MessageEvent<OptimizeRequest>) => {
+    const { id, image, options } = event.data
+    let response: OptimizeResponse
+    try {
+        response = { id, ...(await encodeImage(image, options)) }
+    } catch (err) {
+        response = { id, error: err instanceof Error ? err.message : 'Failed to optimize image' }
+    }
+    self.postMessage(response)
+})
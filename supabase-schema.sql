@@ -15,25 +15,113 @@ CREATE TABLE IF NOT EXISTS wallpapers (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     title TEXT NOT NULL,
     file_url TEXT NOT NULL,
-    thumbnail_url TEXT,
+    mime_type TEXT,
+    display_settings JSONB,
+    composition JSONB, -- layer stack, see src/types/composition.ts
+    dynamic JSONB, -- time-of-day frames, see src/types/dynamic.ts
+    palette JSONB, -- sampled colors for theming, see src/types/palette.ts
+    thumbnail_url TEXT, -- resized still or poster frame, made in the browser on upload
+    preview_url TEXT, -- short muted loop shown on hover, videos only
     uploader_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     tags TEXT[] DEFAULT '{}',
+    search_text TEXT, -- maintained by refresh_wallpaper_search()
+    search_vector TSVECTOR, -- maintained by refresh_wallpaper_search()
+    view_count INTEGER NOT NULL DEFAULT 0,
+    like_count INTEGER NOT NULL DEFAULT 0, -- maintained by count_wallpaper_like()
+    popularity INTEGER NOT NULL DEFAULT 0, -- maintained by refresh_wallpaper_popularity()
+    trending_score DOUBLE PRECISION NOT NULL DEFAULT 0, -- maintained by refresh_wallpaper_popularity()
+    content_hash TEXT, -- SHA-256 of the uploaded file
+    perceptual_hashes TEXT[] -- difference hash per sampled frame, see src/utils/perceptualHash.ts
+        CHECK (cardinality(perceptual_hashes) <= 8 AND array_to_string(perceptual_hashes, ',') ~ '^[0-9a-f]{16}(,[0-9a-f]{16})*$'),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Wallpaper renditions: resolution and codec variants of a video wallpaper
+CREATE TABLE IF NOT EXISTS wallpaper_renditions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallpaper_id UUID NOT NULL REFERENCES wallpapers(id) ON DELETE CASCADE,
+    file_url TEXT NOT NULL,
+    mime_type TEXT,
+    codecs TEXT,
+    width INTEGER,
+    height INTEGER,
+    bitrate INTEGER, -- kbit/s
+    is_original BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Music tracks table
 CREATE TABLE IF NOT EXISTS music_tracks (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     title TEXT NOT NULL,
     artist TEXT,
     file_url TEXT NOT NULL,
+    thumbnail_url TEXT, -- embedded cover art, resized on upload
     duration NUMERIC,
     uploader_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    search_text TEXT, -- maintained by refresh_music_track_search()
+    search_vector TSVECTOR, -- maintained by refresh_music_track_search()
+    play_count INTEGER NOT NULL DEFAULT 0,
+    like_count INTEGER NOT NULL DEFAULT 0, -- maintained by count_track_like()
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Likes: one per user and item, the counts on wallpapers and music_tracks follow these rows
+CREATE TABLE IF NOT EXISTS wallpaper_likes (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    wallpaper_id UUID NOT NULL REFERENCES wallpapers(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, wallpaper_id)
+);
+
+CREATE TABLE IF NOT EXISTS track_likes (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    track_id UUID NOT NULL REFERENCES music_tracks(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, track_id)
+);
+
+-- Favorites: wallpapers a user has saved, synced across their devices
+CREATE TABLE IF NOT EXISTS favorites (
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    wallpaper_id UUID NOT NULL REFERENCES wallpapers(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, wallpaper_id)
+);
+
+-- Views and plays each user has added per wallpaper or track in the current hour, written only by the counter functions
+CREATE TABLE IF NOT EXISTS engagement_counts (
+    user_id UUID NOT NULL,
+    target TEXT NOT NULL CHECK (target IN ('wallpaper', 'track')),
+    target_id UUID NOT NULL,
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (user_id, target, target_id, window_start)
+);
+
+-- Admins: managed from the SQL editor, clients can't read or write this table
+CREATE TABLE IF NOT EXISTS admins (
+    user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Curated tags: display labels and hidden flags for the slugs used in wallpapers.tags
+CREATE TABLE IF NOT EXISTS tags (
+    slug TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    hidden BOOLEAN NOT NULL DEFAULT false, -- left out of suggestions and filters
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Synonyms and merged-away slugs, rewritten to their tag on save
+CREATE TABLE IF NOT EXISTS tag_aliases (
+    alias TEXT PRIMARY KEY,
+    tag_slug TEXT NOT NULL REFERENCES tags(slug) ON UPDATE CASCADE ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Messages table for chat
 CREATE TABLE IF NOT EXISTS messages (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -51,17 +139,36 @@ CREATE TABLE IF NOT EXISTS user_preferences (
     theme TEXT DEFAULT 'dark',
     auto_play_music BOOLEAN DEFAULT false,
     show_chat BOOLEAN DEFAULT true,
+    display_defaults JSONB,
+    display_overrides JSONB DEFAULT '{}',
+    widget_layout JSONB DEFAULT '[]',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Trigram matching for typo-tolerant search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_wallpapers_uploader_id ON wallpapers(uploader_id);
 CREATE INDEX IF NOT EXISTS idx_wallpapers_created_at ON wallpapers(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallpapers_created_at_id ON wallpapers(created_at DESC, id DESC); -- gallery keyset pagination
 CREATE INDEX IF NOT EXISTS idx_wallpapers_tags ON wallpapers USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_wallpapers_search_vector ON wallpapers USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_wallpapers_search_text ON wallpapers USING GIN(search_text gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_wallpapers_popularity_id ON wallpapers(popularity DESC, id DESC); -- gallery 'popular' sort
+CREATE INDEX IF NOT EXISTS idx_wallpapers_trending_score_id ON wallpapers(trending_score DESC, id DESC); -- gallery 'trending' sort
+CREATE INDEX IF NOT EXISTS idx_wallpapers_content_hash ON wallpapers(content_hash);
+CREATE INDEX IF NOT EXISTS idx_wallpaper_likes_wallpaper_id ON wallpaper_likes(wallpaper_id);
+CREATE INDEX IF NOT EXISTS idx_track_likes_track_id ON track_likes(track_id);
+CREATE INDEX IF NOT EXISTS idx_tag_aliases_tag_slug ON tag_aliases(tag_slug);
+CREATE INDEX IF NOT EXISTS idx_favorites_wallpaper_id ON favorites(wallpaper_id);
+CREATE INDEX IF NOT EXISTS idx_wallpaper_renditions_wallpaper_id ON wallpaper_renditions(wallpaper_id);
 
 CREATE INDEX IF NOT EXISTS idx_music_tracks_uploader_id ON music_tracks(uploader_id);
 CREATE INDEX IF NOT EXISTS idx_music_tracks_created_at ON music_tracks(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_music_tracks_search_vector ON music_tracks USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_music_tracks_search_text ON music_tracks USING GIN(search_text gin_trgm_ops);
 
 CREATE INDEX IF NOT EXISTS idx_messages_user_id ON messages(user_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at DESC);
@@ -69,7 +176,15 @@ CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at DESC);
 -- Enable Row Level Security (RLS)
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE wallpapers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallpaper_renditions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE music_tracks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wallpaper_likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE track_likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE favorites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE engagement_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tag_aliases ENABLE ROW LEVEL SECURITY;
 ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
 
@@ -86,12 +201,41 @@ CREATE POLICY "Authenticated users can upload wallpapers" ON wallpapers FOR INSE
 CREATE POLICY "Users can update own wallpapers" ON wallpapers FOR UPDATE USING (auth.uid() = uploader_id);
 CREATE POLICY "Users can delete own wallpapers" ON wallpapers FOR DELETE USING (auth.uid() = uploader_id);
 
+-- Wallpaper renditions: Public read, only the wallpaper's uploader can add or remove variants
+CREATE POLICY "Anyone can view wallpaper renditions" ON wallpaper_renditions FOR SELECT USING (true);
+CREATE POLICY "Uploaders can add wallpaper renditions" ON wallpaper_renditions FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM wallpapers WHERE wallpapers.id = wallpaper_id AND wallpapers.uploader_id = auth.uid())
+);
+CREATE POLICY "Uploaders can delete wallpaper renditions" ON wallpaper_renditions FOR DELETE USING (
+    EXISTS (SELECT 1 FROM wallpapers WHERE wallpapers.id = wallpaper_id AND wallpapers.uploader_id = auth.uid())
+);
+
 -- Music tracks: Public read, authenticated users can upload, owners can delete
 CREATE POLICY "Anyone can view music tracks" ON music_tracks FOR SELECT USING (true);
 CREATE POLICY "Authenticated users can upload music" ON music_tracks FOR INSERT WITH CHECK (auth.uid() = uploader_id);
 CREATE POLICY "Users can update own music tracks" ON music_tracks FOR UPDATE USING (auth.uid() = uploader_id);
 CREATE POLICY "Users can delete own music tracks" ON music_tracks FOR DELETE USING (auth.uid() = uploader_id);
 
+-- Likes: Public read, users can only like and unlike as themselves
+CREATE POLICY "Anyone can view wallpaper likes" ON wallpaper_likes FOR SELECT USING (true);
+CREATE POLICY "Users can like wallpapers" ON wallpaper_likes FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can unlike wallpapers" ON wallpaper_likes FOR DELETE USING (auth.uid() = user_id);
+CREATE POLICY "Anyone can view track likes" ON track_likes FOR SELECT USING (true);
+CREATE POLICY "Users can like tracks" ON track_likes FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can unlike tracks" ON track_likes FOR DELETE USING (auth.uid() = user_id);
+
+-- Favorites: Private, users can only see and change their own
+CREATE POLICY "Users can view own favorites" ON favorites FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can add own favorites" ON favorites FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can remove own favorites" ON favorites FOR DELETE USING (auth.uid() = user_id);
+
+-- Engagement counts: no policies, only the counter functions below read and write them
+-- Admins: no policies, so only SECURITY DEFINER functions such as is_admin() see it
+
+-- Tags and aliases: Public read, changed only through the admin functions below
+CREATE POLICY "Anyone can view tags" ON tags FOR SELECT USING (true);
+CREATE POLICY "Anyone can view tag aliases" ON tag_aliases FOR SELECT USING (true);
+
 -- Messages: Anyone can read, authenticated users can send, users can delete own messages
 CREATE POLICY "Anyone can view messages" ON messages FOR SELECT USING (true);
 CREATE POLICY "Authenticated users can send messages" ON messages FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -106,6 +250,10 @@ CREATE POLICY "Users can delete own preferences" ON user_preferences FOR DELETE
 -- Enable realtime for messages table
 ALTER PUBLICATION supabase_realtime ADD TABLE messages;
 
+-- Enable realtime for favorites so other tabs and devices follow additions.
+-- Clients only subscribe to inserts filtered to their own user_id: delete events can't be filtered and skip RLS.
+ALTER PUBLICATION supabase_realtime ADD TABLE favorites;
+
 -- Create storage buckets (Run these in Supabase Dashboard -> Storage)
 -- Note: These need to be run in the Supabase dashboard or via the JS client
 
@@ -147,4 +295,458 @@ CREATE TRIGGER update_music_tracks_updated_at BEFORE UPDATE ON music_tracks
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_user_preferences_updated_at BEFORE UPDATE ON user_preferences
-    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Full-text search
+-- search_vector holds weighted words for ranking, search_text the same words as plain text for trigram typo matching.
+-- The 'simple' configuration skips stemming, titles and tags aren't all English.
+
+CREATE OR REPLACE FUNCTION refresh_wallpaper_search()
+RETURNS TRIGGER AS $$
+DECLARE
+    uploader_name TEXT;
+BEGIN
+    SELECT username INTO uploader_name FROM users WHERE id = NEW.uploader_id;
+    NEW.search_text = lower(concat_ws(' ', NEW.title, array_to_string(NEW.tags, ' '), uploader_name));
+    NEW.search_vector =
+        setweight(to_tsvector('simple', coalesce(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(array_to_string(NEW.tags, ' '), '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(uploader_name, '')), 'C');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION refresh_music_track_search()
+RETURNS TRIGGER AS $$
+DECLARE
+    uploader_name TEXT;
+BEGIN
+    SELECT username INTO uploader_name FROM users WHERE id = NEW.uploader_id;
+    NEW.search_text = lower(concat_ws(' ', NEW.title, NEW.artist, uploader_name));
+    NEW.search_vector =
+        setweight(to_tsvector('simple', coalesce(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(NEW.artist, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(uploader_name, '')), 'C');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Renaming a user re-indexes their uploads; touching the title fires the triggers above
+CREATE OR REPLACE FUNCTION refresh_uploader_search()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE wallpapers SET title = title WHERE uploader_id = NEW.id;
+    UPDATE music_tracks SET title = title WHERE uploader_id = NEW.id;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER refresh_wallpapers_search BEFORE INSERT OR UPDATE OF title, tags, uploader_id ON wallpapers
+    FOR EACH ROW EXECUTE FUNCTION refresh_wallpaper_search();
+
+CREATE TRIGGER refresh_music_tracks_search BEFORE INSERT OR UPDATE OF title, artist, uploader_id ON music_tracks
+    FOR EACH ROW EXECUTE FUNCTION refresh_music_track_search();
+
+CREATE TRIGGER refresh_users_search AFTER UPDATE OF username ON users
+    FOR EACH ROW WHEN (OLD.username IS DISTINCT FROM NEW.username)
+    EXECUTE FUNCTION refresh_uploader_search();
+
+-- Prefix query from free text: "sun set" matches "sunset beach" and "setting sun"
+CREATE OR REPLACE FUNCTION search_tsquery(query TEXT)
+RETURNS tsquery AS $$
+    SELECT to_tsquery('simple', string_agg(quote_literal(term) || ':*', ' & '))
+    FROM regexp_split_to_table(lower(trim(query)), '[^[:alnum:]]+') AS term
+    WHERE term <> ''
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked, paginated wallpaper search. Rows match on word prefixes or, to survive typos, on trigram
+-- word similarity; both scores add up so exact hits rank above fuzzy ones.
+CREATE OR REPLACE FUNCTION search_wallpapers(
+    search_query TEXT,
+    filter_tags TEXT[] DEFAULT NULL,
+    filter_ids UUID[] DEFAULT NULL,
+    page_limit INTEGER DEFAULT 30,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF wallpapers AS $$
+    SELECT w.*
+    FROM wallpapers w
+    WHERE (w.search_vector @@ search_tsquery(search_query) OR lower(search_query) <% w.search_text)
+        AND (coalesce(cardinality(filter_tags), 0) = 0 OR w.tags && filter_tags)
+        AND (filter_ids IS NULL OR w.id = ANY(filter_ids))
+    ORDER BY
+        coalesce(ts_rank_cd(w.search_vector, search_tsquery(search_query)), 0)
+            + word_similarity(lower(search_query), w.search_text) DESC,
+        w.created_at DESC,
+        w.id DESC
+    LIMIT least(page_limit, 100)
+    OFFSET greatest(page_offset, 0)
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+CREATE OR REPLACE FUNCTION search_tracks(
+    search_query TEXT,
+    page_limit INTEGER DEFAULT 30,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS SETOF music_tracks AS $$
+    SELECT t.*
+    FROM music_tracks t
+    WHERE t.search_vector @@ search_tsquery(search_query) OR lower(search_query) <% t.search_text
+    ORDER BY
+        coalesce(ts_rank_cd(t.search_vector, search_tsquery(search_query)), 0)
+            + word_similarity(lower(search_query), t.search_text) DESC,
+        t.created_at DESC,
+        t.id DESC
+    LIMIT least(page_limit, 100)
+    OFFSET greatest(page_offset, 0)
+$$ LANGUAGE sql STABLE
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+-- Popularity
+-- A like counts as five views. The trending score is the log of that popularity plus the upload time in
+-- 12.5 hour units, so a wallpaper needs ten times the engagement to rank level with one posted 12.5 hours later.
+-- Being relative to the upload time rather than now() keeps it stable between writes and indexable.
+-- Counters only move through the like triggers and counter functions below, which run as the table owner.
+-- Uploaders may update their own rows, so counters they write are put back and scores are always recomputed.
+
+CREATE OR REPLACE FUNCTION refresh_wallpaper_popularity()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.view_count = 0;
+            NEW.like_count = 0;
+        ELSE
+            NEW.view_count = OLD.view_count;
+            NEW.like_count = OLD.like_count;
+        END IF;
+    END IF;
+    NEW.popularity = NEW.like_count * 5 + NEW.view_count;
+    NEW.trending_score = log(greatest(NEW.popularity, 1)) + extract(epoch FROM coalesce(NEW.created_at, NOW())) / 45000;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION keep_music_track_counters()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.play_count = 0;
+            NEW.like_count = 0;
+        ELSE
+            NEW.play_count = OLD.play_count;
+            NEW.like_count = OLD.like_count;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER refresh_wallpapers_popularity BEFORE INSERT OR UPDATE ON wallpapers
+    FOR EACH ROW EXECUTE FUNCTION refresh_wallpaper_popularity();
+
+CREATE TRIGGER keep_music_tracks_counters BEFORE INSERT OR UPDATE ON music_tracks
+    FOR EACH ROW EXECUTE FUNCTION keep_music_track_counters();
+
+-- Like counters run as the table owner: likers can't update other people's wallpapers and tracks
+CREATE OR REPLACE FUNCTION count_wallpaper_like()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE wallpapers SET like_count = like_count + 1 WHERE id = NEW.wallpaper_id;
+    ELSE
+        UPDATE wallpapers SET like_count = greatest(like_count - 1, 0) WHERE id = OLD.wallpaper_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION count_track_like()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE music_tracks SET like_count = like_count + 1 WHERE id = NEW.track_id;
+    ELSE
+        UPDATE music_tracks SET like_count = greatest(like_count - 1, 0) WHERE id = OLD.track_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER count_wallpaper_likes AFTER INSERT OR DELETE ON wallpaper_likes
+    FOR EACH ROW EXECUTE FUNCTION count_wallpaper_like();
+
+CREATE TRIGGER count_track_likes AFTER INSERT OR DELETE ON track_likes
+    FOR EACH ROW EXECUTE FUNCTION count_track_like();
+
+-- Batched view and play counters, e.g. {"<wallpaper id>": 2}. Clients flush these on a debounce.
+-- Only signed-in accounts count, and each adds at most 3 per wallpaper or track an hour however often they call,
+-- so a script calling the counters in a loop can't push something up the popular and trending sorts.
+CREATE OR REPLACE FUNCTION allowed_engagement(counted TEXT, counts JSONB)
+RETURNS TABLE (counted_id UUID, amount INTEGER) AS $$
+DECLARE
+    item RECORD;
+    used INTEGER;
+    current_window TIMESTAMP WITH TIME ZONE := date_trunc('hour', NOW());
+BEGIN
+    -- Guest sessions are free to mint, so a per-user limit only holds for real accounts
+    IF auth.uid() IS NULL OR coalesce((auth.jwt() ->> 'is_anonymous')::BOOLEAN, false) THEN
+        RAISE EXCEPTION 'Only signed-in users can record views and plays';
+    END IF;
+
+    -- Earlier hours no longer limit anything
+    DELETE FROM engagement_counts e WHERE e.user_id = auth.uid() AND e.window_start < current_window;
+
+    FOR item IN
+        SELECT c.key, c.value FROM jsonb_each_text(counts) c
+        WHERE c.key ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    LOOP
+        SELECT e.count INTO used FROM engagement_counts e
+        WHERE e.user_id = auth.uid() AND e.target = counted AND e.target_id = item.key::UUID
+            AND e.window_start = current_window
+        FOR UPDATE;
+
+        amount := least(greatest(item.value::INTEGER, 0), 3 - coalesce(used, 0));
+        CONTINUE WHEN amount <= 0;
+
+        INSERT INTO engagement_counts AS e (user_id, target, target_id, window_start, count)
+        VALUES (auth.uid(), counted, item.key::UUID, current_window, amount)
+        ON CONFLICT (user_id, target, target_id, window_start) DO UPDATE SET count = e.count + EXCLUDED.count;
+
+        counted_id := item.key::UUID;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION increment_wallpaper_views(view_counts JSONB)
+RETURNS void AS $$
+    UPDATE wallpapers w
+    SET view_count = w.view_count + a.amount
+    FROM allowed_engagement('wallpaper', view_counts) a
+    WHERE w.id = a.counted_id
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION increment_track_plays(play_counts JSONB)
+RETURNS void AS $$
+    UPDATE music_tracks t
+    SET play_count = t.play_count + a.amount
+    FROM allowed_engagement('track', play_counts) a
+    WHERE t.id = a.counted_id
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Functions are executable by everyone unless revoked; the limiter is only called by the two counters
+REVOKE EXECUTE ON FUNCTION allowed_engagement(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_wallpaper_views(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION increment_track_plays(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION increment_wallpaper_views(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION increment_track_plays(JSONB) TO authenticated;
+
+-- Tags
+-- Tags are stored as slugs: lowercase letters and digits joined by single hyphens, e.g. "Deep  Space" -> "deep-space".
+-- src/utils/tags.ts mirrors slugify_tag for previews; this trigger is what guarantees it.
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (SELECT 1 FROM admins WHERE user_id = auth.uid())
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Admins can attach and remove renditions on any wallpaper, next to the uploader policies above
+CREATE POLICY "Admins can add wallpaper renditions" ON wallpaper_renditions FOR INSERT WITH CHECK (is_admin());
+CREATE POLICY "Admins can delete wallpaper renditions" ON wallpaper_renditions FOR DELETE USING (is_admin());
+
+CREATE OR REPLACE FUNCTION slugify_tag(tag TEXT)
+RETURNS TEXT AS $$
+    SELECT trim(BOTH '-' FROM regexp_replace(lower(trim(tag)), '[^[:alnum:]]+', '-', 'g'))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Slugify, resolve aliases and drop duplicates, keeping the first occurrence's position
+CREATE OR REPLACE FUNCTION normalize_tags(input TEXT[])
+RETURNS TEXT[] AS $$
+    SELECT coalesce(array_agg(tag ORDER BY first_ord), '{}')
+    FROM (
+        SELECT coalesce(a.tag_slug, slugify_tag(u.raw)) AS tag, min(u.ord) AS first_ord
+        FROM unnest(input) WITH ORDINALITY AS u(raw, ord)
+        LEFT JOIN tag_aliases a ON a.alias = slugify_tag(u.raw)
+        WHERE slugify_tag(u.raw) <> ''
+        GROUP BY 1
+    ) normalized
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION normalize_wallpaper_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.tags = normalize_tags(coalesce(NEW.tags, '{}'));
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Named to sort before refresh_wallpapers_search so the search document sees normalized tags
+CREATE TRIGGER normalize_wallpapers_tags BEFORE INSERT OR UPDATE OF tags ON wallpapers
+    FOR EACH ROW EXECUTE FUNCTION normalize_wallpaper_tags();
+
+-- Every tag in use with its wallpaper count, most used first
+CREATE OR REPLACE FUNCTION tag_counts()
+RETURNS TABLE (slug TEXT, label TEXT, hidden BOOLEAN, wallpaper_count BIGINT) AS $$
+    SELECT u.tag, coalesce(t.label, u.tag), coalesce(t.hidden, false), count(*)
+    FROM wallpapers w
+    CROSS JOIN LATERAL unnest(w.tags) AS u(tag)
+    LEFT JOIN tags t ON t.slug = u.tag
+    GROUP BY u.tag, t.label, t.hidden
+    ORDER BY count(*) DESC, u.tag
+$$ LANGUAGE sql STABLE;
+
+-- Fold source tags into the target on every wallpaper and keep the sources as aliases,
+-- so later uploads using them land on the target too
+CREATE OR REPLACE FUNCTION merge_tags(source_slugs TEXT[], target_slug TEXT)
+RETURNS void AS $$
+DECLARE
+    target TEXT := slugify_tag(target_slug);
+    sources TEXT[] := ARRAY(SELECT slugify_tag(s) FROM unnest(source_slugs) s WHERE slugify_tag(s) <> target);
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only admins can merge tags';
+    END IF;
+    IF target = '' THEN
+        RAISE EXCEPTION 'Target tag is empty';
+    END IF;
+
+    INSERT INTO tags (slug, label) VALUES (target, target) ON CONFLICT (slug) DO NOTHING;
+
+    -- Aliases of the sources move first: deleting the source tags below would cascade to them
+    UPDATE tag_aliases SET tag_slug = target WHERE tag_slug = ANY(sources);
+    INSERT INTO tag_aliases (alias, tag_slug)
+    SELECT s, target FROM unnest(sources) s
+    ON CONFLICT (alias) DO UPDATE SET tag_slug = EXCLUDED.tag_slug;
+    DELETE FROM tag_aliases WHERE alias = target;
+    DELETE FROM tags WHERE slug = ANY(sources);
+
+    -- Touching tags re-runs normalize_tags, which now maps the sources to the target
+    UPDATE wallpapers SET tags = tags WHERE tags && sources;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- A rename is a merge into the new slug that also sets its label
+CREATE OR REPLACE FUNCTION rename_tag(old_slug TEXT, new_label TEXT)
+RETURNS void AS $$
+BEGIN
+    PERFORM merge_tags(ARRAY[old_slug], new_label);
+    UPDATE tags SET label = trim(new_label) WHERE slug = slugify_tag(new_label);
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_tag_hidden(tag_slug TEXT, is_hidden BOOLEAN)
+RETURNS void AS $$
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only admins can hide tags';
+    END IF;
+
+    INSERT INTO tags (slug, label, hidden) VALUES (tag_slug, tag_slug, is_hidden)
+    ON CONFLICT (slug) DO UPDATE SET hidden = EXCLUDED.hidden;
+END;
+$$ language 'plpgsql' SECURITY DEFINER SET search_path = public;
+
+-- Duplicates
+-- Perceptual hashes are 64-bit difference hashes written as 16 hex digits, one per sampled frame (one for
+-- still images). Pictures that look alike differ in few bits even after rescaling or recompression.
+
+CREATE OR REPLACE FUNCTION hash_distance(a TEXT, b TEXT)
+RETURNS INTEGER AS $$
+    SELECT bit_count(('x' || a)::bit(64) # ('x' || b)::bit(64))::integer
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+-- How far the worst frame of either set is from its closest frame in the other, NULL without frames
+CREATE OR REPLACE FUNCTION frame_set_distance(a TEXT[], b TEXT[])
+RETURNS INTEGER AS $$
+    SELECT greatest(
+        (SELECT max(d) FROM (SELECT min(hash_distance(x, y)) AS d FROM unnest(a) x, unnest(b) y GROUP BY x) ab),
+        (SELECT max(d) FROM (SELECT min(hash_distance(x, y)) AS d FROM unnest(a) x, unnest(b) y GROUP BY y) ba)
+    )
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Wallpapers matching an upload's hashes, exact copies first. Near matches need a scan of every
+-- row's hashes, which is fine at this table's size; a BK-tree index is the next step if it grows.
+CREATE OR REPLACE FUNCTION find_similar_wallpapers(
+    file_hash TEXT,
+    frame_hashes TEXT[],
+    max_distance INTEGER DEFAULT 10,
+    max_results INTEGER DEFAULT 6
+)
+RETURNS SETOF wallpapers AS $$
+    SELECT w.*
+    FROM wallpapers w
+    WHERE w.content_hash = file_hash
+        OR frame_set_distance(w.perceptual_hashes, frame_hashes) <= max_distance
+    ORDER BY
+        coalesce(w.content_hash = file_hash, false) DESC,
+        frame_set_distance(w.perceptual_hashes, frame_hashes) NULLS LAST,
+        w.created_at
+    LIMIT least(max_results, 24)
+$$ LANGUAGE sql STABLE;
+
+-- Every pair of likely duplicates, for the admin dashboard. Compares all rows with each other,
+-- so it's kept to admins.
+CREATE OR REPLACE FUNCTION duplicate_wallpaper_pairs(max_distance INTEGER DEFAULT 10)
+RETURNS TABLE (wallpaper_id UUID, duplicate_id UUID, distance INTEGER) AS $$
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only admins can list duplicates';
+    END IF;
+
+    RETURN QUERY
+    SELECT a.id, b.id, p.distance
+    FROM wallpapers a
+    JOIN wallpapers b ON a.id < b.id
+    CROSS JOIN LATERAL (
+        SELECT CASE
+            WHEN a.content_hash = b.content_hash THEN 0
+            ELSE frame_set_distance(a.perceptual_hashes, b.perceptual_hashes)
+        END AS distance
+    ) p
+    WHERE p.distance <= max_distance;
+END;
+$$ language 'plpgsql' STABLE;
+
+-- Migrations for databases created from an earlier version of this file
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS mime_type TEXT;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS display_settings JSONB;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS composition JSONB;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS dynamic JSONB;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS palette JSONB;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS preview_url TEXT;
+ALTER TABLE music_tracks ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS search_text TEXT;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+ALTER TABLE music_tracks ADD COLUMN IF NOT EXISTS search_text TEXT;
+ALTER TABLE music_tracks ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS view_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS like_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS popularity INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS trending_score DOUBLE PRECISION NOT NULL DEFAULT 0;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE wallpapers ADD COLUMN IF NOT EXISTS perceptual_hashes TEXT[]
+    CHECK (cardinality(perceptual_hashes) <= 8 AND array_to_string(perceptual_hashes, ',') ~ '^[0-9a-f]{16}(,[0-9a-f]{16})*$');
+ALTER TABLE music_tracks ADD COLUMN IF NOT EXISTS play_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE music_tracks ADD COLUMN IF NOT EXISTS like_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS display_defaults JSONB;
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS display_overrides JSONB DEFAULT '{}';
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS widget_layout JSONB DEFAULT '[]';
+-- wallpaper_renditions is created with IF NOT EXISTS above; also run its index and policies,
+-- and the admin rendition policies after is_admin() in the tags section
+-- Full-text search: add the columns above, run the search section and indexes, then backfill existing rows
+-- UPDATE wallpapers SET title = title;
+-- UPDATE music_tracks SET title = title;
+-- Popularity: add the columns above, run the likes tables, policies, popularity section and indexes, then backfill scores
+-- UPDATE wallpapers SET view_count = view_count;
+-- Counter limits: run the engagement_counts table and its RLS line, then the counter functions and grants
+-- in the popularity section
+-- Counter protection: drop the old popularity trigger, then run the popularity section's trigger functions and triggers
+-- DROP TRIGGER refresh_wallpapers_popularity ON wallpapers;
+-- Favorites: run the favorites table, index, policies and realtime publication above
+-- Tags: run the admins, tags and tag_aliases tables, their policies and the tags section, then normalize existing rows
+-- UPDATE wallpapers SET tags = tags;
+-- Duplicates: add the columns above, run the content_hash index and the duplicates section. Existing
+-- wallpapers have no hashes until they are re-uploaded, so they aren't matched.